@@ -0,0 +1,42 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export const OIDC_PROVIDERS = ['google', 'facebook'] as const;
+
+export type OidcProvider = typeof OIDC_PROVIDERS[number];
+
+export interface OidcProviderConfig {
+  issuers: string[]; // accepted `iss` values
+  // https:// for the provider's published keys, or file:// for a local JWKS (tests, offline dev)
+  jwksUri: string;
+  clientId: string; // expected `aud` of the ID token
+}
+
+// OIDC_<NAME>_ISSUER may list several issuers, comma-separated
+const providerConfig = (name: string, defaults: { issuers: string[]; jwksUri: string }): OidcProviderConfig => {
+  const issuers = (process.env[`OIDC_${name}_ISSUER`] || '').split(',').map(issuer => issuer.trim()).filter(Boolean);
+  return {
+    issuers: issuers.length > 0 ? issuers : defaults.issuers,
+    jwksUri: process.env[`OIDC_${name}_JWKS_URI`] || defaults.jwksUri,
+    clientId: process.env[`OIDC_${name}_CLIENT_ID`] || ''
+  };
+};
+
+export const OIDC_PROVIDER_CONFIG: { [provider in OidcProvider]: OidcProviderConfig } = {
+  // Google signs ID tokens with either form of its issuer
+  google: providerConfig('GOOGLE', {
+    issuers: ['https://accounts.google.com', 'accounts.google.com'],
+    jwksUri: 'https://www.googleapis.com/oauth2/v3/certs'
+  }),
+  // Facebook ID tokens never carry email_verified, so a Facebook sign-in can't create or link an
+  // account by email; users link Facebook from their profile first (POST /me/identities)
+  facebook: providerConfig('FACEBOOK', {
+    issuers: ['https://www.facebook.com'],
+    jwksUri: 'https://www.facebook.com/.well-known/oauth/openid/jwks/'
+  }),
+};
+
+export const isOidcProvider = (provider: unknown): provider is OidcProvider => {
+  return typeof provider === 'string' && (OIDC_PROVIDERS as readonly string[]).includes(provider);
+};
@@ -0,0 +1,41 @@
+export const PERMISSIONS = [
+  'products:write',
+  'categories:write',
+  'orders:read',
+  'orders:update',
+  'users:read',
+  'users:manage',
+  'dashboard:read',
+  'audit:read',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLES = ['customer', 'support', 'order_manager', 'catalog_manager', 'admin'] as const;
+
+export type Role = typeof ROLES[number];
+
+export const ROLE_PERMISSIONS: { [role in Role]: Permission[] } = {
+  customer: [],
+  support: ['orders:read', 'users:read'],
+  order_manager: ['orders:read', 'orders:update', 'users:read', 'dashboard:read'],
+  catalog_manager: ['products:write', 'categories:write', 'dashboard:read'],
+  admin: [...PERMISSIONS],
+};
+
+export const isValidRole = (role: unknown): role is Role => {
+  return typeof role === 'string' && (ROLES as readonly string[]).includes(role);
+};
+
+export const getPermissions = (role: Role): Permission[] => {
+  return ROLE_PERMISSIONS[role] || [];
+};
+
+export const hasPermission = (role: Role, permission: Permission): boolean => {
+  return getPermissions(role).includes(permission);
+};
+
+// Any role that grants a permission counts as a staff account
+export const isStaffRole = (role: Role): boolean => {
+  return getPermissions(role).length > 0;
+};
@@ -0,0 +1,163 @@
+import { Response, NextFunction } from 'express';
+import User, { IAddress, IUser } from '../model/User';
+import { AuthenticatedRequest } from '../middleware/User';
+
+const ADDRESS_FIELDS = ['label', 'fullName', 'phoneNumber', 'address', 'city', 'postalCode'] as const;
+
+const findAddress = (user: IUser, addressId: string): IAddress | null => {
+  return user.addresses.find(address => address._id.toString() === addressId) || null;
+};
+
+// Exactly one address is the default whenever the book is non-empty
+const setDefaultAddress = (user: IUser, addressId: string): void => {
+  user.addresses.forEach(address => {
+    address.isDefault = address._id.toString() === addressId;
+  });
+};
+
+export const getAddresses = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const user = await User.findById(req.user!.userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    res.json({ addresses: user.addresses });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const addAddress = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { label, fullName, phoneNumber, address, city, postalCode, isDefault } = req.body;
+
+    if (!label?.trim() || !fullName?.trim() || !phoneNumber?.trim() || !address?.trim() || !city?.trim()) {
+      res.status(400).json({ message: 'Label, full name, phone number, address and city are required' });
+      return;
+    }
+
+    const user = await User.findById(req.user!.userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    user.addresses.push({ label, fullName, phoneNumber, address, city, postalCode });
+    const newAddress = user.addresses[user.addresses.length - 1];
+
+    if (isDefault === true || user.addresses.length === 1) {
+      setDefaultAddress(user, newAddress._id.toString());
+    }
+
+    await user.save();
+
+    res.status(201).json({
+      message: 'Address added successfully',
+      address: newAddress,
+      addresses: user.addresses
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateAddress = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { addressId } = req.params;
+
+    const user = await User.findById(req.user!.userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    const address = findAddress(user, addressId);
+    if (!address) {
+      res.status(404).json({ message: 'Address not found' });
+      return;
+    }
+
+    for (const field of ADDRESS_FIELDS) {
+      if (req.body[field] !== undefined) {
+        address[field] = req.body[field];
+      }
+    }
+
+    if (req.body.isDefault === true) {
+      setDefaultAddress(user, addressId);
+    }
+
+    await user.save();
+
+    res.json({
+      message: 'Address updated successfully',
+      address,
+      addresses: user.addresses
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const setDefault = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { addressId } = req.params;
+
+    const user = await User.findById(req.user!.userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    if (!findAddress(user, addressId)) {
+      res.status(404).json({ message: 'Address not found' });
+      return;
+    }
+
+    setDefaultAddress(user, addressId);
+    await user.save();
+
+    res.json({
+      message: 'Default address updated successfully',
+      addresses: user.addresses
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteAddress = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { addressId } = req.params;
+
+    const user = await User.findById(req.user!.userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    const address = findAddress(user, addressId);
+    if (!address) {
+      res.status(404).json({ message: 'Address not found' });
+      return;
+    }
+
+    user.addresses.pull(address._id);
+
+    // Promote another address so checkout always has a default to fall back on
+    if (address.isDefault && user.addresses.length > 0) {
+      setDefaultAddress(user, user.addresses[0]._id.toString());
+    }
+
+    await user.save();
+
+    res.json({
+      message: 'Address deleted successfully',
+      addresses: user.addresses
+    });
+  } catch (error) {
+    next(error);
+  }
+};
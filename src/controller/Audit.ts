@@ -0,0 +1,56 @@
+import { Request, Response, NextFunction } from 'express';
+import AuditLog from '../model/AuditLog';
+
+const MAX_PAGE_SIZE = 100;
+
+const parseDate = (value: unknown): Date | null | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export const getAuditLogs = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, MAX_PAGE_SIZE);
+    const skip = (page - 1) * limit;
+    const { actorId, action, targetType, targetId } = req.query;
+
+    const filter: Record<string, unknown> = {};
+    if (actorId) filter['actor.userId'] = String(actorId);
+    if (action) filter.action = String(action);
+    if (targetType) filter['target.type'] = String(targetType);
+    if (targetId) filter['target.id'] = String(targetId);
+
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+    if (from === null || to === null) {
+      res.status(400).json({ message: 'from and to must be valid dates' });
+      return;
+    }
+    if (from || to) {
+      filter.createdAt = {
+        ...(from && { $gte: from }),
+        ...(to && { $lte: to })
+      };
+    }
+
+    const [logs, total] = await Promise.all([
+      AuditLog.find(filter)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit),
+      AuditLog.countDocuments(filter)
+    ]);
+
+    res.json({
+      logs,
+      total,
+      page,
+      pages: Math.ceil(total / limit)
+    });
+  } catch (error) {
+    console.error('Get audit logs error:', error);
+    next(error);
+  }
+};
@@ -3,14 +3,24 @@ import Cart, { ICart, ICartItem } from '../model/Cart';
 import Product, { IProduct } from '../model/Product';
 import Order from '../model/Order';
 import mongoose from 'mongoose';
+import { AuthenticatedRequest } from '../middleware/User';
+import { resolvePurchasable } from '../utils/Variants';
+
+// A cart line is one product, or one variant of a product
+const findCartLine = (cart: ICart, productId: string, variantId?: string): number => {
+  return cart.items.findIndex(
+    item => item.product.toString() === productId && (item.variant?.toString() || undefined) === (variantId || undefined)
+  );
+};
 
 // Add item to cart
-export const addToCart = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+export const addToCart = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { userId, productId, quantity = 1 } = req.body;
+    const userId = req.user!.userId;
+    const { productId, variantId, quantity = 1 } = req.body;
 
-    if (!userId || !productId) {
-      res.status(400).json({ message: 'User ID and product ID are required' });
+    if (!productId) {
+      res.status(400).json({ message: 'Product ID is required' });
       return;
     }
 
@@ -26,8 +36,14 @@ export const addToCart = async (req: Request, res: Response, next: NextFunction)
       return;
     }
 
+    const purchasable = resolvePurchasable(product, variantId);
+    if ('error' in purchasable) {
+      res.status(400).json({ message: purchasable.error });
+      return;
+    }
+
     // Check stock availability
-    if (product.stock < quantity) {
+    if (purchasable.stock < quantity) {
       res.status(400).json({ message: 'Insufficient stock' });
       return;
     }
@@ -39,28 +55,29 @@ export const addToCart = async (req: Request, res: Response, next: NextFunction)
     }
 
     // Check if item already exists in cart
-    const existingItemIndex = cart.items.findIndex(
-      item => item.product.toString() === productId
-    );
+    const existingItemIndex = findCartLine(cart, productId, variantId);
 
     if (existingItemIndex > -1) {
       // Update quantity if item exists
       const newQuantity = cart.items[existingItemIndex].quantity + quantity;
       
-      if (product.stock < newQuantity) {
+      if (purchasable.stock < newQuantity) {
         res.status(400).json({ message: 'Not enough stock for requested quantity' });
         return;
       }
       
       cart.items[existingItemIndex].quantity = newQuantity;
+      cart.items[existingItemIndex].price = purchasable.price;
     } else {
       // Add new item to cart
       const cartItem: ICartItem = {
         product: new mongoose.Types.ObjectId(productId),
+        variant: purchasable.variant?._id,
+        variantLabel: purchasable.label,
         quantity,
-        price: product.price,
+        price: purchasable.price,
         name: product.name,
-        image: product.mainImage
+        image: purchasable.image
       };
       cart.items.push(cartItem);
     }
@@ -142,12 +159,13 @@ const cleanupFailedOrderItems = async (userId: string): Promise<void> => {
 };
 
 // Update item quantity in cart
-export const updateCartItem = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+export const updateCartItem = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { userId, productId, quantity } = req.body;
+    const userId = req.user!.userId;
+    const { productId, variantId, quantity } = req.body;
 
-    if (!userId || !productId || quantity === undefined) {
-      res.status(400).json({ message: 'User ID, product ID, and quantity are required' });
+    if (!productId || quantity === undefined) {
+      res.status(400).json({ message: 'Product ID and quantity are required' });
       return;
     }
 
@@ -162,9 +180,7 @@ export const updateCartItem = async (req: Request, res: Response, next: NextFunc
       return;
     }
 
-    const itemIndex = cart.items.findIndex(
-      item => item.product.toString() === productId
-    );
+    const itemIndex = findCartLine(cart, productId, variantId);
 
     if (itemIndex === -1) {
       res.status(404).json({ message: 'Item not found in cart' });
@@ -182,7 +198,13 @@ export const updateCartItem = async (req: Request, res: Response, next: NextFunc
         return;
       }
 
-      if (product.stock < quantity) {
+      const purchasable = resolvePurchasable(product, variantId);
+      if ('error' in purchasable) {
+        res.status(400).json({ message: purchasable.error });
+        return;
+      }
+
+      if (purchasable.stock < quantity) {
         res.status(400).json({ message: 'Insufficient stock' });
         return;
       }
@@ -204,12 +226,13 @@ export const updateCartItem = async (req: Request, res: Response, next: NextFunc
 };
 
 // Remove item from cart
-export const removeFromCart = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+export const removeFromCart = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { userId, productId } = req.body;
+    const userId = req.user!.userId;
+    const { productId, variantId } = req.body;
 
-    if (!userId || !productId) {
-      res.status(400).json({ message: 'User ID and product ID are required' });
+    if (!productId) {
+      res.status(400).json({ message: 'Product ID is required' });
       return;
     }
 
@@ -219,9 +242,7 @@ export const removeFromCart = async (req: Request, res: Response, next: NextFunc
       return;
     }
 
-    const itemIndex = cart.items.findIndex(
-      item => item.product.toString() === productId
-    );
+    const itemIndex = findCartLine(cart, productId, variantId);
 
     if (itemIndex === -1) {
       res.status(404).json({ message: 'Item not found in cart' });
@@ -1,6 +1,8 @@
 import { Request, Response } from "express";
 import { uploadToCloudinary, deleteFromCloudinary } from "../utils/Cloudinary";
 import Category from "../model/Category";
+import Product from "../model/Product";
+import { changeSlug, isSkuTaken } from "../utils/Identifiers";
 
 const CLOUDINARY_FOLDER = 'categories';
 
@@ -48,6 +50,40 @@ export const getCategoryById = async (req: Request, res: Response) => {
   }
 };
 
+export const getCategoryBySlug = async (req: Request, res: Response) => {
+  try {
+    const { slug } = req.params;
+    const category = await Category.findOne({ slug });
+    if (category) {
+      res.status(200).json(category);
+      return;
+    }
+
+    const renamed = await Category.findOne({ previousSlugs: slug }, { slug: 1 });
+    if (renamed) {
+      res.redirect(301, `${req.baseUrl}/slug/${renamed.slug}`);
+      return;
+    }
+
+    res.status(404).json({ error: "Category not found" });
+  } catch (error) {
+    res.status(500).json({ error: "Error fetching category" });
+  }
+};
+
+export const getCategoryBySku = async (req: Request, res: Response) => {
+  try {
+    const category = await Category.findOne({ sku: req.params.sku });
+    if (!category) {
+      res.status(404).json({ error: "Category not found" });
+      return;
+    }
+    res.status(200).json(category);
+  } catch (error) {
+    res.status(500).json({ error: "Error fetching category" });
+  }
+};
+
 export const updateCategory = async (req: Request, res: Response) => {
   try {
     const { name, description } = req.body;
@@ -58,6 +94,23 @@ export const updateCategory = async (req: Request, res: Response) => {
       return;
     }
 
+    if (req.body.slug !== undefined) {
+      const slugError = await changeSlug(Category, category, req.body.slug);
+      if (slugError) {
+        res.status(400).json({ error: slugError });
+        return;
+      }
+    }
+
+    if (req.body.sku !== undefined && req.body.sku !== category.sku) {
+      const sku = String(req.body.sku).trim();
+      if (!sku || await isSkuTaken(Category, sku, category._id)) {
+        res.status(400).json({ error: "SKU is missing or already in use" });
+        return;
+      }
+      category.sku = sku;
+    }
+
     // Store old image URL for deletion if new image is uploaded
     let oldImageUrl: string | null = null;
 
@@ -69,11 +122,17 @@ export const updateCategory = async (req: Request, res: Response) => {
       category.image = imageUrl;
     }
 
+    const renamed = !!name && name !== category.name;
     category.name = name || category.name;
     category.description = description || category.description;
 
     const updatedCategory = await category.save();
 
+    // Keep the copy used by product search in step
+    if (renamed) {
+      await Product.updateMany({ category: category._id }, { $set: { categoryName: category.name } });
+    }
+
     // Delete old image after successful update
     if (oldImageUrl) {
       try {
@@ -0,0 +1,92 @@
+import { Response, NextFunction } from 'express';
+import User from '../model/User';
+import { AuthenticatedRequest } from '../middleware/User';
+import { OIDC_PROVIDERS, isOidcProvider } from '../config/OidcProviders';
+import { verifyIdToken } from '../utils/Oidc';
+
+export const getIdentities = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const user = await User.findById(req.user!.userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    res.json({ identities: user.identities });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const linkIdentity = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { provider, idToken } = req.body;
+
+    if (!isOidcProvider(provider) || !idToken) {
+      res.status(400).json({ message: `provider (${OIDC_PROVIDERS.join(', ')}) and idToken are required` });
+      return;
+    }
+
+    let claims;
+    try {
+      claims = await verifyIdToken(provider, idToken);
+    } catch (tokenError) {
+      console.error('ID token verification failed:', tokenError);
+      res.status(401).json({ message: 'Invalid ID token' });
+      return;
+    }
+
+    const user = await User.findById(req.user!.userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    if (user.identities.some(identity => identity.provider === provider)) {
+      res.status(409).json({ message: `A ${provider} account is already linked. Unlink it first.` });
+      return;
+    }
+
+    const owner = await User.exists({
+      identities: { $elemMatch: { provider, subject: claims.subject } }
+    });
+    if (owner) {
+      res.status(409).json({ message: `This ${provider} account is already linked to another user` });
+      return;
+    }
+
+    user.identities.push({ provider, subject: claims.subject, email: claims.email, linkedAt: new Date() });
+    await user.save();
+
+    res.json({ message: `${provider} account linked successfully`, identities: user.identities });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Password login, emailed codes and password reset always remain available, so
+// removing the last provider never locks the user out
+export const unlinkIdentity = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { provider } = req.params;
+
+    const user = await User.findById(req.user!.userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    const remaining = user.identities.filter(identity => identity.provider !== provider);
+    if (remaining.length === user.identities.length) {
+      res.status(404).json({ message: `No ${provider} account is linked` });
+      return;
+    }
+
+    user.identities = remaining;
+    await user.save();
+
+    res.json({ message: `${provider} account unlinked successfully`, identities: user.identities });
+  } catch (error) {
+    next(error);
+  }
+};
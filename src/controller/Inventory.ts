@@ -0,0 +1,145 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Product from '../model/Product';
+import InventoryMovement, { INVENTORY_REASONS } from '../model/InventoryMovement';
+import { AuthenticatedRequest } from '../middleware/User';
+import {
+  MANUAL_STOCK_REASONS,
+  StockError,
+  adjustStock,
+  getLowStockReport,
+  isManualStockReason,
+  runInTransaction,
+  sendLowStockReport,
+  stockActor
+} from '../utils/Inventory';
+
+const MAX_PAGE_SIZE = 100;
+
+// The ledger for one product, newest first
+export const getStockMovements = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { productId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(productId)) {
+      res.status(404).json({ error: 'Product not found' });
+      return;
+    }
+
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, MAX_PAGE_SIZE);
+    const { reason, variantId, orderId } = req.query;
+
+    const filter: Record<string, unknown> = { product: new mongoose.Types.ObjectId(productId) };
+    if (reason) {
+      if (!(INVENTORY_REASONS as readonly string[]).includes(reason as string)) {
+        res.status(400).json({ error: `reason must be one of: ${INVENTORY_REASONS.join(', ')}` });
+        return;
+      }
+      filter.reason = reason;
+    }
+    if (variantId && mongoose.Types.ObjectId.isValid(variantId as string)) {
+      filter.variant = new mongoose.Types.ObjectId(variantId as string);
+    }
+    if (orderId && mongoose.Types.ObjectId.isValid(orderId as string)) {
+      filter.order = new mongoose.Types.ObjectId(orderId as string);
+    }
+
+    const [movements, total] = await Promise.all([
+      InventoryMovement.find(filter)
+        .sort({ createdAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      InventoryMovement.countDocuments(filter)
+    ]);
+
+    res.status(200).json({
+      movements,
+      total,
+      page,
+      pages: Math.ceil(total / limit)
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Error fetching stock movements' });
+  }
+};
+
+// Body: { delta, reason, variantId?, orderId?, note? }; delta is signed, e.g. -2 for two damaged units
+export const adjustProductStock = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { delta, reason, variantId, orderId, note } = req.body;
+
+    const change = Number(delta);
+    if (!Number.isInteger(change) || change === 0) {
+      res.status(400).json({ error: 'delta must be a whole number other than 0' });
+      return;
+    }
+
+    if (!isManualStockReason(reason)) {
+      res.status(400).json({ error: `reason must be one of: ${MANUAL_STOCK_REASONS.join(', ')}` });
+      return;
+    }
+
+    // Restocks and returns add stock and damage removes it; corrections go either way
+    if ((reason === 'RESTOCK' || reason === 'RETURN') && change < 0) {
+      res.status(400).json({ error: `${reason} must increase stock` });
+      return;
+    }
+    if (reason === 'DAMAGE' && change > 0) {
+      res.status(400).json({ error: 'DAMAGE must decrease stock' });
+      return;
+    }
+
+    if (orderId !== undefined && !mongoose.Types.ObjectId.isValid(orderId)) {
+      res.status(400).json({ error: 'orderId is not valid' });
+      return;
+    }
+
+    const product = await Product.findById(req.params.productId);
+    if (!product) {
+      res.status(404).json({ error: 'Product not found' });
+      return;
+    }
+
+    const result = await runInTransaction(session => adjustStock(product, variantId, change, {
+      reason,
+      actor: stockActor(req.user),
+      order: orderId,
+      note
+    }, { session }));
+
+    res.status(201).json(result);
+  } catch (error) {
+    if (error instanceof StockError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    res.status(500).json({ error: 'Error adjusting stock', details: error });
+  }
+};
+
+export const getLowStock = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const items = await getLowStockReport();
+    res.status(200).json({ items, total: items.length });
+  } catch (error) {
+    res.status(500).json({ error: 'Error building low-stock report' });
+  }
+};
+
+// Builds the same report and emails it to the stock managers
+export const notifyLowStock = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const items = await getLowStockReport();
+    const recipients = await sendLowStockReport(items);
+
+    res.status(200).json({
+      message: items.length > 0 ? 'Low-stock report sent' : 'Nothing is low on stock; no email was sent',
+      items,
+      total: items.length,
+      recipients
+    });
+  } catch (error) {
+    console.error('Error sending low-stock report:', error);
+    res.status(500).json({ error: 'Error sending low-stock report' });
+  }
+};
@@ -1,7 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
-import Order, { IOrder, IOrderItem } from '../model/Order';
+import Order, { IDeliveryAddress, IOrder, IOrderItem } from '../model/Order';
 import Product, { IProduct } from '../model/Product';
 import Cart from '../model/Cart';
+import User from '../model/User';
 import mongoose from 'mongoose';
 import { 
   generateTransactionUuid, 
@@ -11,16 +12,69 @@ import {
   decodeEsewaResponse,
   ESEWA_CONFIG
 } from '../utils/Esewa';
+import { AuthenticatedRequest, rejectStaffWithoutTwoFactor } from '../middleware/User';
+import { hasPermission } from '../config/Roles';
+import { sendMail } from '../utils/Mailer';
+import { resolvePurchasable } from '../utils/Variants';
+import { StockError, adjustStock } from '../utils/Inventory';
+
+// Checkout takes a saved addressId, a full address, or falls back to the
+// user's default address. The result is always a snapshot copied onto the order.
+const resolveDeliveryAddress = async (
+  userId: string,
+  addressId: string | undefined,
+  deliveryAddress: IDeliveryAddress | undefined
+): Promise<IDeliveryAddress | null> => {
+  if (!addressId && deliveryAddress) {
+    const { fullName, phoneNumber, address, city, postalCode } = deliveryAddress;
+    if (!fullName || !phoneNumber || !address || !city) return null;
+    return { fullName, phoneNumber, address, city, postalCode };
+  }
+
+  const user = await User.findById(userId);
+  if (!user) return null;
+
+  const saved = addressId
+    ? user.addresses.find(address => address._id.toString() === addressId)
+    : user.addresses.find(address => address.isDefault);
+  if (!saved) return null;
+
+  return {
+    fullName: saved.fullName,
+    phoneNumber: saved.phoneNumber,
+    address: saved.address,
+    city: saved.city,
+    postalCode: saved.postalCode
+  };
+};
+
+// Email the customer once an order is confirmed; never fails the request
+const sendOrderConfirmation = async (order: IOrder): Promise<void> => {
+  try {
+    const user = await User.findById(order.userInfo.userId);
+    if (!user) return;
+
+    await sendMail(user.email, 'order-confirmation', {
+      username: order.userInfo.username,
+      orderId: order._id.toString(),
+      itemCount: order.items.reduce((total, item) => total + item.quantity, 0),
+      paymentMethod: order.paymentMethod === 'ESEWA' ? 'eSewa' : 'Cash on delivery',
+      grandTotal: order.grandTotal
+    });
+  } catch (error) {
+    console.error('Order confirmation email failed:', error);
+  }
+};
 
 // Create new order from cart
-export const createOrderFromCart = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+export const createOrderFromCart = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
   const session = await mongoose.startSession();
   session.startTransaction();
 
   try {
+    const { userId, username } = req.user!;
     const { 
-      userId,
-      deliveryAddress, 
+      addressId,
       paymentMethod, 
       taxAmount = 0, 
       deliveryCharge = 0, 
@@ -28,15 +82,10 @@ export const createOrderFromCart = async (req: Request, res: Response, next: Nex
     } = req.body;
 
     // Validation
-    if (!userId) {
-      await session.abortTransaction();
-      res.status(400).json({ message: 'User ID is required' });
-      return;
-    }
-
-    if (!deliveryAddress || !deliveryAddress.fullName || !deliveryAddress.phoneNumber || !deliveryAddress.address || !deliveryAddress.city) {
+    const deliveryAddress = await resolveDeliveryAddress(userId, addressId, req.body.deliveryAddress);
+    if (!deliveryAddress) {
       await session.abortTransaction();
-      res.status(400).json({ message: 'Complete delivery address is required' });
+      res.status(400).json({ message: 'A saved address or complete delivery address is required' });
       return;
     }
 
@@ -66,27 +115,39 @@ export const createOrderFromCart = async (req: Request, res: Response, next: Nex
         return;
       }
 
-      if (product.stock < cartItem.quantity) {
+      const purchasable = resolvePurchasable(product, cartItem.variant?.toString());
+      if ('error' in purchasable) {
+        await session.abortTransaction();
+        res.status(400).json({ message: purchasable.error });
+        return;
+      }
+
+      if (purchasable.stock < cartItem.quantity) {
         await session.abortTransaction();
         res.status(400).json({ 
-          message: `Insufficient stock for product: ${product.name}`,
+          message: `Insufficient stock for product: ${product.name}${purchasable.label ? ` (${purchasable.label})` : ''}`,
           details: {
             productId: product._id,
+            variantId: purchasable.variant?._id,
             productName: product.name,
-            availableStock: product.stock,
+            availableStock: purchasable.stock,
             requestedQuantity: cartItem.quantity
           }
         });
         return;
       }
 
-      const itemTotal = cartItem.price * cartItem.quantity;
+      // The cart keeps the price from when the item was added; charge the one in effect now
+      const itemTotal = purchasable.price * cartItem.quantity;
       totalAmount += itemTotal;
 
       validatedItems.push({
         product: product._id as mongoose.Types.ObjectId,
+        variant: purchasable.variant?._id,
+        variantLabel: purchasable.label,
+        sku: purchasable.sku,
         quantity: cartItem.quantity,
-        price: cartItem.price
+        price: purchasable.price
       });
     }
 
@@ -96,7 +157,7 @@ export const createOrderFromCart = async (req: Request, res: Response, next: Nex
     const orderData: Partial<IOrder> = {
       userInfo: {
         userId,
-        username: req.body.username 
+        username
       },
       items: validatedItems,
       deliveryAddress,
@@ -126,8 +187,11 @@ export const createOrderFromCart = async (req: Request, res: Response, next: Nex
       for (const cartItem of cart.items) {
         const product = await Product.findById(cartItem.product).session(session);
         if (product) {
-          product.stock -= cartItem.quantity;
-          await product.save({ session });
+          await adjustStock(product, cartItem.variant?.toString(), -cartItem.quantity, {
+            reason: 'SALE',
+            actor: { userId, username },
+            order: order._id
+          }, { session });
         }
       }
 
@@ -143,6 +207,10 @@ export const createOrderFromCart = async (req: Request, res: Response, next: Nex
     await session.commitTransaction();
     session.endSession();
 
+    if (order.orderStatus === 'CONFIRMED') {
+      await sendOrderConfirmation(order);
+    }
+
     // Populate order for response
     const populatedOrder = await Order.findById(order._id)
       .populate('items.product', 'name price mainImage');
@@ -190,6 +258,11 @@ export const createOrderFromCart = async (req: Request, res: Response, next: Nex
   } catch (error) {
     await session.abortTransaction();
     session.endSession();
+    // Another checkout took the last units after the stock check above
+    if (error instanceof StockError) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
     console.error('Create order from cart error:', error);
     next(error);
   }
@@ -245,92 +318,86 @@ export const handleEsewaSuccess = async (req: Request, res: Response, next: Next
       return res.redirect(`${process.env.FRONTEND_URL}/payment/failed?error=Order not found`);
     }
 
-    let paymentSuccessful = false;
-
-    // Double-check payment status with eSewa
+    // Double-check payment status with eSewa; if the check itself fails, the signed status is trusted
+    let statusResponse: any = null;
     try {
-      const statusResponse = await checkEsewaPaymentStatus(
+      statusResponse = await checkEsewaPaymentStatus(
         product_code,
         parseInt(total_amount),
         transaction_uuid
       );
-
       console.log('eSewa status check response:', statusResponse);
+    } catch (statusError) {
+      console.error('Status check failed:', statusError);
+    }
+
+    const paymentSuccessful = status === 'COMPLETE' && (!statusResponse || statusResponse.status === 'COMPLETE');
+    let outOfStock: StockError | null = null;
 
-      if (status === 'COMPLETE' && statusResponse.status === 'COMPLETE') {
-        // Payment successful - now reduce stock and clear cart
-        order.paymentStatus = 'PAID';
-        order.orderStatus = 'CONFIRMED';
-        order.esewaTransactionCode = transaction_code;
-        order.esewaRefId = statusResponse.ref_id;
-        order.esewaSignature = signature;
+    if (paymentSuccessful) {
+      order.paymentStatus = 'PAID';
+      order.orderStatus = 'CONFIRMED';
+      order.esewaTransactionCode = transaction_code;
+      if (statusResponse) order.esewaRefId = statusResponse.ref_id;
+      order.esewaSignature = signature;
 
-        // Reduce product stock
+      try {
+        // Payment successful - now reduce stock
         for (const orderItem of order.items) {
           const product = await Product.findById(orderItem.product).session(session);
           if (product) {
-            product.stock -= orderItem.quantity;
-            await product.save({ session });
+            await adjustStock(product, orderItem.variant?.toString(), -orderItem.quantity, {
+              reason: 'SALE',
+              actor: order.userInfo,
+              order: order._id
+            }, { session });
           }
         }
+      } catch (error) {
+        if (!(error instanceof StockError)) throw error;
 
-        // Clear user's cart
-        const cart = await Cart.findOne({ userId: order.userInfo.userId }).session(session);
-        if (cart) {
-          cart.items = [];
-          await cart.save({ session });
-        }
-
-        paymentSuccessful = true;
-
-      } else {
-        order.paymentStatus = 'FAILED';
-        order.orderStatus = 'CANCELLED';
-        paymentSuccessful = false;
+        // eSewa orders don't hold stock, so an item can sell out before the customer pays.
+        // The money has been taken either way: drop the stock changes made so far, keep the
+        // payment on record and leave the order for staff to refund or backorder.
+        outOfStock = error;
+        await session.abortTransaction();
+        session.startTransaction();
+        order.orderStatus = 'PENDING';
+        order.reviewFlag = {
+          reason: `Paid but could not be fulfilled: ${error.message}. Refund or backorder.`,
+          flaggedAt: new Date()
+        };
       }
 
-    } catch (statusError) {
-      console.error('Status check failed:', statusError);
-      // If status check fails but signature is valid and status is COMPLETE, still proceed
-      if (status === 'COMPLETE') {
-        order.paymentStatus = 'PAID';
-        order.orderStatus = 'CONFIRMED';
-        order.esewaTransactionCode = transaction_code;
-        order.esewaSignature = signature;
-
-        // Reduce product stock
-        for (const orderItem of order.items) {
-          const product = await Product.findById(orderItem.product).session(session);
-          if (product) {
-            product.stock -= orderItem.quantity;
-            await product.save({ session });
-          }
-        }
-
-        // Clear user's cart
-        const cart = await Cart.findOne({ userId: order.userInfo.userId }).session(session);
-        if (cart) {
-          cart.items = [];
-          await cart.save({ session });
-        }
-        paymentSuccessful = true;
-      } else {
-        order.paymentStatus = 'FAILED';
-        order.orderStatus = 'CANCELLED';
-        paymentSuccessful = false;
+      // Clear user's cart
+      const cart = await Cart.findOne({ userId: order.userInfo.userId }).session(session);
+      if (cart) {
+        cart.items = [];
+        await cart.save({ session });
       }
+    } else {
+      order.paymentStatus = 'FAILED';
+      order.orderStatus = 'CANCELLED';
     }
 
     await order.save({ session });
     await session.commitTransaction();
 
+    if (paymentSuccessful && !outOfStock) {
+      await sendOrderConfirmation(order);
+    }
+
     // Populate order for frontend display
     const populatedOrder = await Order.findById(order._id)
       .populate('items.product', 'name price mainImage');
 
     // Prepare data for frontend
     const frontendData = {
-      message: paymentSuccessful ? "Payment successful" : "Payment failed",
+      message: !paymentSuccessful
+        ? "Payment failed"
+        : outOfStock
+          ? "Payment received, but some items are no longer in stock. We will contact you about a refund or backorder."
+          : "Payment successful",
       order: populatedOrder,
       paymentDetails: paymentResponse
     };
@@ -441,8 +508,34 @@ export const updateOrderStatus = async (req: Request, res: Response, next: NextF
   }
 };
 
+// Clear the review flag once staff have looked at the order
+export const clearOrderReviewFlag = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { orderId } = req.params;
+
+    const order = await Order.findById(orderId);
+    if (!order) {
+      res.status(404).json({ message: 'Order not found' });
+      return;
+    }
+
+    if (!order.reviewFlag?.flaggedAt) {
+      res.status(400).json({ message: 'Order is not flagged for review' });
+      return;
+    }
+
+    order.reviewFlag = undefined;
+    await order.save();
+
+    res.json({ message: 'Order review flag cleared successfully', order });
+  } catch (error) {
+    console.error('Clear order review flag error:', error);
+    next(error);
+  }
+};
+
 // Check payment status
-export const checkPaymentStatus = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+export const checkPaymentStatus = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     const { orderId } = req.params;
 
@@ -452,6 +545,14 @@ export const checkPaymentStatus = async (req: Request, res: Response, next: Next
       return;
     }
 
+    if (order.userInfo.userId !== req.user!.userId) {
+      if (!hasPermission(req.user!.role, 'orders:read')) {
+        res.status(403).json({ message: 'You can only access your own orders' });
+        return;
+      }
+      if (await rejectStaffWithoutTwoFactor(req, res)) return;
+    }
+
     if (order.paymentMethod === 'ESEWA' && order.esewaTransactionUuid) {
       try {
         const statusResponse = await checkEsewaPaymentStatus(
@@ -508,33 +609,32 @@ export const checkPaymentStatus = async (req: Request, res: Response, next: Next
 };
 
 // Keep other functions unchanged
-export const createOrder = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+export const createOrder = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
   const session = await mongoose.startSession();
   session.startTransaction();
 
   try {
+    const userInfo = {
+      userId: req.user!.userId,
+      username: req.user!.username
+    };
     const { 
-      userInfo, 
       items, 
-      deliveryAddress, 
+      addressId,
       paymentMethod, 
       taxAmount = 0, 
       deliveryCharge = 0, 
       notes 
     } = req.body;
 
-    if (!userInfo || !userInfo.userId || !userInfo.username) {
-      res.status(400).json({ message: 'User info (ID and username) is required' });
-      return;
-    }
-
     if (!items || !Array.isArray(items) || items.length === 0) {
       res.status(400).json({ message: 'Items are required' });
       return;
     }
 
-    if (!deliveryAddress || !deliveryAddress.fullName || !deliveryAddress.phoneNumber || !deliveryAddress.address || !deliveryAddress.city) {
-      res.status(400).json({ message: 'Complete delivery address is required' });
+    const deliveryAddress = await resolveDeliveryAddress(userInfo.userId, addressId, req.body.deliveryAddress);
+    if (!deliveryAddress) {
+      res.status(400).json({ message: 'A saved address or complete delivery address is required' });
       return;
     }
 
@@ -558,18 +658,27 @@ export const createOrder = async (req: Request, res: Response, next: NextFunctio
         return;
       }
 
-      if (product.stock < item.quantity) {
+      const purchasable = resolvePurchasable(product, item.variant);
+      if ('error' in purchasable) {
+        res.status(400).json({ message: purchasable.error });
+        return;
+      }
+
+      if (purchasable.stock < item.quantity) {
         res.status(400).json({ message: `Insufficient stock for product: ${product.name}` });
         return;
       }
 
-      const itemTotal = product.price * item.quantity;
+      const itemTotal = purchasable.price * item.quantity;
       totalAmount += itemTotal;
 
       validatedItems.push({
         product: product._id as mongoose.Types.ObjectId,
+        variant: purchasable.variant?._id,
+        variantLabel: purchasable.label,
+        sku: purchasable.sku,
         quantity: item.quantity,
-        price: product.price
+        price: purchasable.price
       });
     }
 
@@ -601,14 +710,21 @@ export const createOrder = async (req: Request, res: Response, next: NextFunctio
       for (const item of items) {
         const product = await Product.findById(item.product).session(session);
         if (product) {
-          product.stock -= item.quantity;
-          await product.save({ session });
+          await adjustStock(product, item.variant, -item.quantity, {
+            reason: 'SALE',
+            actor: userInfo,
+            order: order._id
+          }, { session });
         }
       }
     }
 
     await session.commitTransaction();
 
+    if (order.orderStatus === 'CONFIRMED') {
+      await sendOrderConfirmation(order);
+    }
+
     const populatedOrder = await Order.findById(order._id)
       .populate('items.product', 'name price mainImage');
 
@@ -653,6 +769,10 @@ export const createOrder = async (req: Request, res: Response, next: NextFunctio
 
   } catch (error) {
     await session.abortTransaction();
+    if (error instanceof StockError) {
+      res.status(error.status).json({ message: error.message });
+      return;
+    }
     console.error('Create order error:', error);
     next(error);
   } finally {
@@ -701,7 +821,10 @@ export const getAllOrders = async (req: Request, res: Response, next: NextFuncti
     const skip = (page - 1) * limit;
     const status = req.query.status as string;
 
-    const filter = status ? { orderStatus: status } : {};
+    const filter: Record<string, unknown> = status ? { orderStatus: status } : {};
+    if (req.query.flagged === 'true') {
+      filter['reviewFlag.flaggedAt'] = { $exists: true };
+    }
 
     const [orders, total] = await Promise.all([
       Order.find(filter)
@@ -725,7 +848,7 @@ export const getAllOrders = async (req: Request, res: Response, next: NextFuncti
   }
 };
 
-export const getOrderById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+export const getOrderById = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     const { orderId } = req.params;
 
@@ -737,6 +860,14 @@ export const getOrderById = async (req: Request, res: Response, next: NextFuncti
       return;
     }
 
+    if (order.userInfo.userId !== req.user!.userId) {
+      if (!hasPermission(req.user!.role, 'orders:read')) {
+        res.status(403).json({ message: 'You can only access your own orders' });
+        return;
+      }
+      if (await rejectStaffWithoutTwoFactor(req, res)) return;
+    }
+
     res.json({ order });
 
   } catch (error) {
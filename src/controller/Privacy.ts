@@ -0,0 +1,173 @@
+import { Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import User from '../model/User';
+import Order from '../model/Order';
+import Cart from '../model/Cart';
+import Product, { renameReviewAuthor } from '../model/Product';
+import Session from '../model/Session';
+import Otp from '../model/Otp';
+import { AuthenticatedRequest } from '../middleware/User';
+import { comparePassword } from '../utils/Password';
+import { accountKey, clearThrottle, otpKey } from '../utils/Throttle';
+
+// Reviews are stored against the username rather than the user ID
+const collectReviewActivity = async (username: string) => {
+  const products = await Product.find({
+    $or: [
+      { 'ratings.user': username },
+      { 'comments.user': username },
+      { 'comments.likes': username },
+      { 'comments.replies.user': username },
+      { 'comments.replies.likes': username }
+    ]
+  }).select('name ratings comments');
+
+  const ratings: object[] = [];
+  const comments: object[] = [];
+  const replies: object[] = [];
+  const likes: object[] = [];
+
+  for (const product of products) {
+    const productRef = { productId: product._id, productName: product.name };
+
+    for (const rating of product.ratings) {
+      if (rating.user === username) {
+        ratings.push({ ...productRef, value: rating.value, createdAt: rating.createdAt, updatedAt: rating.updatedAt });
+      }
+    }
+
+    for (const comment of product.comments) {
+      if (comment.user === username) {
+        comments.push({ ...productRef, commentId: comment._id, text: comment.text, createdAt: comment.createdAt });
+      }
+      if (comment.likes.includes(username)) {
+        likes.push({ ...productRef, commentId: comment._id });
+      }
+
+      for (const reply of comment.replies) {
+        if (reply.user === username) {
+          replies.push({ ...productRef, commentId: comment._id, replyId: reply._id, text: reply.text, createdAt: reply.createdAt });
+        }
+        if (reply.likes.includes(username)) {
+          likes.push({ ...productRef, commentId: comment._id, replyId: reply._id });
+        }
+      }
+    }
+  }
+
+  return { ratings, comments, replies, likes };
+};
+
+export const exportUserData = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const user = await User.findById(req.user!.userId)
+      .select('-password -resetTokenHash -resetTokenExpiry -twoFactorSecret -twoFactorPendingSecret -twoFactorRecoveryCodes')
+      .lean();
+
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    const [orders, cart, sessions, reviews] = await Promise.all([
+      Order.find({ 'userInfo.userId': req.user!.userId }).sort({ createdAt: -1 }).lean(),
+      Cart.findOne({ userId: req.user!.userId }).lean(),
+      Session.find({ userId: req.user!.userId })
+        .select('userAgent ip createdAt lastUsedAt revokedAt revokedReason')
+        .lean(),
+      collectReviewActivity(user.username)
+    ]);
+
+    const archive = {
+      exportedAt: new Date().toISOString(),
+      user,
+      orders,
+      cart,
+      sessions,
+      reviews
+    };
+
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename="user-data-${user._id}.json"`);
+    res.send(JSON.stringify(archive, null, 2));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteAccount = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { password } = req.body;
+
+    if (!password) {
+      res.status(400).json({ message: 'Password is required to delete your account' });
+      return;
+    }
+
+    const user = await User.findById(req.user!.userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    const isMatch = await comparePassword(password, user.password);
+    if (!isMatch) {
+      res.status(401).json({ message: 'Password is incorrect' });
+      return;
+    }
+
+    const openOrders = await Order.countDocuments({
+      'userInfo.userId': req.user!.userId,
+      orderStatus: { $in: ['PENDING', 'CONFIRMED'] }
+    });
+    if (openOrders > 0) {
+      res.status(400).json({ message: 'You have orders that are still in progress. Please wait until they are delivered or cancelled.' });
+      return;
+    }
+
+    const userId = user._id.toString();
+    const username = user.username;
+    // One pseudonym per deleted account keeps reviews consistent without identifying anyone
+    const pseudonym = `deleted-user-${crypto.randomBytes(4).toString('hex')}`;
+
+    // Orders are kept for bookkeeping, stripped of personal details
+    await Order.updateMany(
+      { 'userInfo.userId': userId },
+      {
+        $set: {
+          'userInfo.userId': pseudonym,
+          'userInfo.username': pseudonym,
+          'deliveryAddress.fullName': 'Deleted user',
+          'deliveryAddress.phoneNumber': 'REDACTED',
+          'deliveryAddress.address': 'REDACTED'
+        },
+        $unset: { 'deliveryAddress.postalCode': '', notes: '' }
+      }
+    );
+
+    // Ratings keep counting towards averages; authorship is pseudonymized and likes removed
+    await Product.updateMany(
+      { 'comments.likes': username },
+      { $pull: { 'comments.$[].likes': username } }
+    );
+    await Product.updateMany(
+      { 'comments.replies.likes': username },
+      { $pull: { 'comments.$[].replies.$[].likes': username } }
+    );
+    await renameReviewAuthor(username, pseudonym);
+
+    await Promise.all([
+      Cart.deleteMany({ userId }),
+      Session.deleteMany({ userId }), // Invalidates every access and refresh token
+      Otp.deleteMany({ userId }),
+      clearThrottle(accountKey(userId)),
+      clearThrottle(otpKey(user.email))
+    ]);
+
+    await user.deleteOne();
+
+    res.json({ message: 'Your account has been deleted' });
+  } catch (error) {
+    next(error);
+  }
+};
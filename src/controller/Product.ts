@@ -1,7 +1,23 @@
 import { Request, Response } from 'express';
 import { uploadToCloudinary, deleteFromCloudinary } from '../utils/Cloudinary';
-import Product, { IProduct } from '../model/Product';
+import Product, { IProduct, PRODUCT_STATUSES, ProductStatus, publishedFilter } from '../model/Product';
 import mongoose from 'mongoose';
+import { MAX_SEARCH_LENGTH, applySearch, buildProductSearch } from '../utils/Search';
+import { FacetFilters, buildFacetStage, combineFilters, formatFacets } from '../utils/Facets';
+import { PRODUCT_SORTS, cursorCondition, encodeCursor, parsePageSize, toSortStage } from '../utils/Pagination';
+import { changeSlug, isSkuTaken } from '../utils/Identifiers';
+import { PriceRange, applyPricing, effectivePriceExpression, effectivePriceFilter, parsePricing, pricingError } from '../utils/Pricing';
+import {
+  MANUAL_STOCK_REASONS,
+  StockError,
+  changeStock,
+  isManualStockReason,
+  parseExpectedStock,
+  runInTransaction,
+  setStockLevel,
+  stockActor
+} from '../utils/Inventory';
+import { AuthenticatedRequest } from '../middleware/User';
 
 const CLOUDINARY_FOLDER = 'products';
 
@@ -23,7 +39,60 @@ const deleteImages = async (imageUrls: string[]): Promise<void> => {
   }
 };
 
-export const createProduct = async (req: Request, res: Response): Promise<void> => {
+type Lifecycle = { status?: ProductStatus; publishAt?: Date | null; unpublishAt?: Date | null };
+
+// Reads status and schedule fields; an empty string clears a schedule
+const parseLifecycle = (body: any): Lifecycle | { error: string } => {
+  const lifecycle: Lifecycle = {};
+
+  if (body.status !== undefined) {
+    if (!PRODUCT_STATUSES.includes(body.status)) {
+      return { error: `status must be one of: ${PRODUCT_STATUSES.join(', ')}` };
+    }
+    lifecycle.status = body.status;
+  }
+
+  for (const field of ['publishAt', 'unpublishAt'] as const) {
+    if (body[field] === undefined) continue;
+    if (body[field] === '' || body[field] === null) {
+      lifecycle[field] = null;
+      continue;
+    }
+    const date = new Date(body[field]);
+    if (isNaN(date.getTime())) {
+      return { error: `${field} must be a valid date` };
+    }
+    lifecycle[field] = date;
+  }
+
+  if (lifecycle.publishAt && lifecycle.unpublishAt && lifecycle.unpublishAt <= lifecycle.publishAt) {
+    return { error: 'unpublishAt must be after publishAt' };
+  }
+
+  return lifecycle;
+};
+
+const applyLifecycle = (product: IProduct, lifecycle: Lifecycle): void => {
+  if (lifecycle.status) {
+    product.archivedAt = lifecycle.status === 'ARCHIVED' ? product.archivedAt || new Date() : undefined;
+    product.status = lifecycle.status;
+  }
+  if (lifecycle.publishAt !== undefined) product.publishAt = lifecycle.publishAt || undefined;
+  if (lifecycle.unpublishAt !== undefined) product.unpublishAt = lifecycle.unpublishAt || undefined;
+};
+
+// An empty string clears the threshold so the default applies again
+const parseLowStockThreshold = (value: unknown): number | null | undefined | { error: string } => {
+  if (value === undefined) return undefined;
+  if (value === '' || value === null) return null;
+  const threshold = Number(value);
+  if (!Number.isInteger(threshold) || threshold < 0) {
+    return { error: 'lowStockThreshold must be a whole number of at least 0' };
+  }
+  return threshold;
+};
+
+export const createProduct = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { name, price, description, stock, category } = req.body;
     
@@ -32,37 +101,76 @@ export const createProduct = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    const mainImage = await uploadToCloudinary(
+    const lifecycle = parseLifecycle(req.body);
+    if ('error' in lifecycle) {
+      res.status(400).json({ error: lifecycle.error });
+      return;
+    }
+
+    const pricing = parsePricing(req.body);
+    if ('error' in pricing) {
+      res.status(400).json({ error: pricing.error });
+      return;
+    }
+
+    const lowStockThreshold = parseLowStockThreshold(req.body.lowStockThreshold);
+    if (lowStockThreshold && typeof lowStockThreshold === 'object') {
+      res.status(400).json({ error: lowStockThreshold.error });
+      return;
+    }
+
+    const initialStock = parseInt(stock) || 0;
+    if (initialStock < 0) {
+      res.status(400).json({ error: 'stock must be at least 0' });
+      return;
+    }
+
+    const newProduct = new Product({
+      name,
+      price: parseFloat(price),
+      description,
+      stock: 0,
+      lowStockThreshold: lowStockThreshold ?? undefined,
+      category: new mongoose.Types.ObjectId(category)
+    });
+    applyLifecycle(newProduct, lifecycle);
+    applyPricing(newProduct, pricing);
+
+    const pricingProblem = pricingError(newProduct);
+    if (pricingProblem) {
+      res.status(400).json({ error: pricingProblem });
+      return;
+    }
+
+    newProduct.mainImage = await uploadToCloudinary(
       req.files.mainImage[0].buffer,
       CLOUDINARY_FOLDER
     );
 
-    const subImages: string[] = [];
+    newProduct.subImages = [];
     if (req.files.subImages) {
       for (const file of req.files.subImages) {
         const imageUrl = await uploadToCloudinary(file.buffer, CLOUDINARY_FOLDER);
-        subImages.push(imageUrl);
+        newProduct.subImages.push(imageUrl);
       }
     }
 
-    const newProduct = new Product({
-      name,
-      price: parseFloat(price),
-      description,
-      mainImage,
-      subImages,
-      stock: parseInt(stock),
-      category: new mongoose.Types.ObjectId(category)
-    });
+    // Opening stock goes through the ledger like any other delivery
+    const movement = initialStock > 0
+      ? changeStock(newProduct, undefined, initialStock, { reason: 'RESTOCK', actor: stockActor(req.user), note: 'Opening stock' })
+      : null;
 
-    await newProduct.save();
+    await runInTransaction(async session => {
+      await newProduct.save({ session });
+      if (movement && !('error' in movement)) await movement.save({ session });
+    });
     res.status(201).json(newProduct);
   } catch (error) {
     res.status(500).json({ error: 'Error creating product', details: error });
   }
 };
 
-export const updateProduct = async (req: Request, res: Response): Promise<void> => {
+export const updateProduct = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { name, price, description, stock, category } = req.body;
     const product = await Product.findById(req.params.id);
@@ -72,6 +180,70 @@ export const updateProduct = async (req: Request, res: Response): Promise<void>
       return;
     }
 
+    const pricing = parsePricing(req.body);
+    if ('error' in pricing) {
+      res.status(400).json({ error: pricing.error });
+      return;
+    }
+
+    const lowStockThreshold = parseLowStockThreshold(req.body.lowStockThreshold);
+    if (lowStockThreshold && typeof lowStockThreshold === 'object') {
+      res.status(400).json({ error: lowStockThreshold.error });
+      return;
+    }
+
+    // A new stock level is logged as the difference; products with variants keep stock per variant
+    let stockLevel: number | undefined;
+    let expectedStock: number | undefined;
+    if (stock !== undefined && stock !== '' && product.variants.length === 0) {
+      const level = Number(stock);
+      if (!Number.isInteger(level) || level < 0) {
+        res.status(400).json({ error: 'stock must be a whole number of at least 0' });
+        return;
+      }
+      if (req.body.stockReason !== undefined && !isManualStockReason(req.body.stockReason)) {
+        res.status(400).json({ error: `stockReason must be one of: ${MANUAL_STOCK_REASONS.join(', ')}` });
+        return;
+      }
+      const expected = parseExpectedStock(req.body.expectedStock);
+      if (typeof expected === 'object') {
+        res.status(400).json({ error: expected.error });
+        return;
+      }
+      stockLevel = level;
+      expectedStock = expected;
+    }
+
+    if (req.body.slug !== undefined) {
+      const slugError = await changeSlug(Product, product, req.body.slug);
+      if (slugError) {
+        res.status(400).json({ error: slugError });
+        return;
+      }
+    }
+
+    if (req.body.sku !== undefined && req.body.sku !== product.sku) {
+      const sku = String(req.body.sku).trim();
+      if (!sku || await isSkuTaken(Product, sku, product._id)) {
+        res.status(400).json({ error: "SKU is missing or already in use" });
+        return;
+      }
+      product.sku = sku;
+    }
+
+    if (name) product.name = name;
+    if (price) product.price = parseFloat(price);
+    if (description !== undefined) product.description = description;
+    if (category) product.category = new mongoose.Types.ObjectId(category);
+    applyPricing(product, pricing);
+    if (lowStockThreshold !== undefined) product.lowStockThreshold = lowStockThreshold ?? undefined;
+
+    const pricingProblem = pricingError(product);
+    if (pricingProblem) {
+      res.status(400).json({ error: pricingProblem });
+      return;
+    }
+
     // Store old images for deletion if new images are uploaded
     let imagesToDelete: string[] = [];
 
@@ -95,13 +267,20 @@ export const updateProduct = async (req: Request, res: Response): Promise<void>
       }
     }
 
-    if (name) product.name = name;
-    if (price) product.price = parseFloat(price);
-    if (description !== undefined) product.description = description;
-    if (stock) product.stock = parseInt(stock);
-    if (category) product.category = new mongoose.Types.ObjectId(category);
-
-    const updatedProduct = await product.save();
+    // The stock change is conditional on the level the form was loaded with (expectedStock), so a
+    // sale or adjustment while it was open makes it fail rather than be overwritten. Without
+    // expectedStock only changes made during this request are caught.
+    const updatedProduct = await runInTransaction(async session => {
+      const saved = await product.save({ session });
+      if (stockLevel === undefined) return saved;
+
+      const result = await setStockLevel(saved, undefined, stockLevel, {
+        reason: req.body.stockReason || 'CORRECTION',
+        actor: stockActor(req.user),
+        note: req.body.stockNote
+      }, { session, expectedStock });
+      return result ? result.product : saved;
+    });
 
     if (imagesToDelete.length > 0) {
       await deleteImages(imagesToDelete);
@@ -109,90 +288,122 @@ export const updateProduct = async (req: Request, res: Response): Promise<void>
 
     res.status(200).json(updatedProduct);
   } catch (error) {
+    if (error instanceof StockError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
     res.status(500).json({ error: "Error updating product", details: error });
   }
 };
 
 export const getAllProducts = async (req: Request, res: Response): Promise<void> => {
     try {
+        // Page numbers suit the admin table; the storefront passes the opaque
+        // `cursor` from the previous response, which stays stable as products are added
         const page = parseInt(req.query.page as string) || 1;
-        const limit = 10;
-        const skip = (page - 1) * limit;
-        
-        // Build filter object
-        const filter: any = {};
+        const limit = parsePageSize(req.query.limit);
+        const cursor = req.query.cursor as string | undefined;
+        const skip = cursor ? 0 : (page - 1) * limit;
+        const now = new Date(); // sale windows and schedules are judged at one instant
         
-        // Search filter
-        if (req.query.search) {
-            filter.name = { $regex: req.query.search as string, $options: 'i' };
-        }
+        // Build filters, one per facet
+        const facetFilters: FacetFilters = {};
         
         // Category filter
         if (req.query.category) {
             const categories = (req.query.category as string).split(',');
             const validCategories = categories.filter(cat => mongoose.Types.ObjectId.isValid(cat));
             if (validCategories.length > 0) {
-                filter.category = { $in: validCategories.map(cat => new mongoose.Types.ObjectId(cat)) };
+                facetFilters.category = { category: { $in: validCategories.map(cat => new mongoose.Types.ObjectId(cat)) } };
             }
         }
         
-        // Price filter
+        // Price filter, on the price customers would pay now
         if (req.query.price) {
             const priceRange = req.query.price as string;
             const [min, max] = priceRange.split('-');
+            const range: PriceRange = {};
+            if (min && !isNaN(parseFloat(min))) range.min = parseFloat(min);
+            if (max && !isNaN(parseFloat(max))) range.max = parseFloat(max);
             
-            if (min && max) {
-                filter.price = { $gte: parseFloat(min), $lte: parseFloat(max) };
-            } else if (min && !max) {
-                filter.price = { $gte: parseFloat(min) };
-            } else if (!min && max) {
-                filter.price = { $lte: parseFloat(max) };
+            if (range.min !== undefined || range.max !== undefined) {
+                facetFilters.price = effectivePriceFilter(range, now);
             }
         }
 
-        // Build sort object
-        let sortObj: any = {};
-        const sortBy = req.query.sort as string;
-        
-        switch (sortBy) {
-            case 'price-asc':
-                sortObj = { price: 1 };
-                break;
-            case 'price-desc':
-                sortObj = { price: -1 };
-                break;
-            case 'rating':
-                sortObj = { averageRating: -1 };
-                break;
-            case 'name-asc':
-                sortObj = { name: 1 };
-                break;
-            case 'name-desc':
-                sortObj = { name: -1 };
-                break;
-            default: // newest
-                sortObj = { createdAt: -1 };
-                break;
+        // Rating filter (minimum average rating)
+        const minRating = parseFloat(req.query.rating as string);
+        if (!isNaN(minRating)) {
+            facetFilters.rating = { averageRating: { $gte: minRating } };
         }
 
-        const [products, total] = await Promise.all([
-            Product.find(filter)
-                .populate('category', 'name')
-                .sort(sortObj)
-                .skip(skip)
-                .limit(limit),
-            Product.countDocuments(filter)
+        if (req.query.inStock === 'true') {
+            facetFilters.inStock = { stock: { $gt: 0 } };
+        }
+
+        const visible = publishedFilter(now);
+        const filter = { ...visible, ...combineFilters(facetFilters) };
+
+        const search = (req.query.search as string || '').trim();
+        if (search.length > MAX_SEARCH_LENGTH) {
+            res.status(400).json({ error: `search must be at most ${MAX_SEARCH_LENGTH} characters` });
+            return;
+        }
+        const productSearch = search ? await buildProductSearch(search, filter) : null;
+        const match = productSearch ? applySearch(productSearch, filter) : filter;
+
+        // Relevance is the default whenever there is a search, and only makes sense with one
+        let sortBy = (req.query.sort as string) || (productSearch ? 'relevance' : 'newest');
+        if (!PRODUCT_SORTS[sortBy] || (sortBy === 'relevance' && !productSearch)) {
+            sortBy = 'newest';
+        }
+        const sortKey = PRODUCT_SORTS[sortBy];
+
+        const after = cursor ? cursorCondition(cursor, sortBy, sortKey) : null;
+        if (cursor && !after) {
+            res.status(400).json({ error: "Invalid cursor" });
+            return;
+        }
+
+        const [results, total, [facetResult]] = await Promise.all([
+            Product.aggregate([
+                { $match: match },
+                {
+                    $addFields: {
+                        effectivePrice: effectivePriceExpression(now),
+                        ...(productSearch ? { score: productSearch.score } : {})
+                    }
+                },
+                ...(after ? [{ $match: after }] : []),
+                { $sort: toSortStage(sortKey) },
+                { $skip: skip },
+                { $limit: limit + 1 }, // one extra to tell whether there is a next page
+                { $project: { priceHistory: 0 } }
+            ]),
+            Product.countDocuments(match),
+            Product.aggregate([
+                { $match: productSearch ? applySearch(productSearch, visible) : visible },
+                buildFacetStage(facetFilters, now)
+            ])
         ]);
+        const hasMore = results.length > limit;
+        const pageItems = results.slice(0, limit);
+        const products = await Product.populate(pageItems, { path: 'category', select: 'name' });
 
         res.status(200).json({
             products,
             total,
             page,
             pages: Math.ceil(total / limit),
+            limit,
+            nextCursor: hasMore ? encodeCursor(sortBy, sortKey, pageItems[pageItems.length - 1]) : null,
+            facets: formatFacets(facetResult),
             filters: {
                 category: req.query.category || '',
                 price: req.query.price || '',
-                sort: req.query.sort || 'newest',
+                rating: req.query.rating || '',
+                inStock: req.query.inStock === 'true',
+                sort: sortBy,
                 search: req.query.search || ''
             }
         });
@@ -202,9 +413,10 @@ export const getAllProducts = async (req: Request, res: Response): Promise<void>
     }
 };
 
+// Storefront lookup; drafts, scheduled and archived products are only served by getAdminProductById
 export const getProductById = async (req: Request, res: Response): Promise<void> => {
     try {
-        const product = await Product.findById(req.params.id).populate('category', 'name');
+        const product = await Product.findOne({ _id: req.params.id, ...publishedFilter() }).populate('category', 'name');
         if (!product) {
             res.status(404).json({ error: "Product not found" });
             return;
@@ -215,6 +427,49 @@ export const getProductById = async (req: Request, res: Response): Promise<void>
     }
 };
 
+// Storefront URLs use slugs; a renamed slug redirects to the current one. Like the listing,
+// only published products are found; staff look up drafts by id.
+export const getProductBySlug = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { slug } = req.params;
+        const visible = publishedFilter();
+        const product = await Product.findOne({ slug, ...visible }).populate('category', 'name slug');
+        if (product) {
+            res.status(200).json(product);
+            return;
+        }
+
+        const renamed = await Product.findOne({ previousSlugs: slug, ...visible }, { slug: 1 });
+        if (renamed) {
+            res.redirect(301, `${req.baseUrl}/slug/${renamed.slug}`);
+            return;
+        }
+
+        res.status(404).json({ error: "Product not found" });
+    } catch (error) {
+        res.status(500).json({ error: "Error fetching product" });
+    }
+};
+
+// Matches the product SKU or one of its variants' SKUs, among published products
+export const getProductBySku = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { sku } = req.params;
+        const product = await Product.findOne({ $or: [{ sku }, { 'variants.sku': sku }], ...publishedFilter() })
+            .populate('category', 'name slug');
+
+        if (!product) {
+            res.status(404).json({ error: "Product not found" });
+            return;
+        }
+
+        const variant = product.variants.find(item => item.sku === sku);
+        res.status(200).json({ product, variantId: variant?._id || null });
+    } catch (error) {
+        res.status(500).json({ error: "Error fetching product" });
+    }
+};
+
 export const deleteProduct = async (req: Request, res: Response): Promise<void> => {
     try {
         const product = await Product.findById(req.params.id);
@@ -224,15 +479,120 @@ export const deleteProduct = async (req: Request, res: Response): Promise<void>
             return;
         }
 
-        const imagesToDelete = [product.mainImage, ...(product.subImages || [])];
+        // Archive rather than delete so past orders can still show the product;
+        // images are kept so it can be restored
+        applyLifecycle(product, { status: 'ARCHIVED' });
+        await product.save();
+
+        res.status(200).json({ message: "Product archived successfully", product });
+    } catch (error) {
+        res.status(500).json({ error: "Error deleting product", details: error });
+    }
+};
+
+// Any product regardless of status, for editing drafts and archived items
+export const getAdminProductById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const product = await Product.findById(req.params.id).populate('category', 'name');
+    if (!product) {
+      res.status(404).json({ error: 'Product not found' });
+      return;
+    }
+    res.status(200).json(product);
+  } catch (error) {
+    res.status(500).json({ error: 'Error fetching product' });
+  }
+};
+
+// Admin listing across every status, e.g. ?status=ARCHIVED
+export const getAdminProducts = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const page = parseInt(req.query.page as string) || 1;
+        const limit = parsePageSize(req.query.limit);
+        const status = req.query.status as string | undefined;
+
+        if (status && !PRODUCT_STATUSES.includes(status as ProductStatus)) {
+            res.status(400).json({ error: `status must be one of: ${PRODUCT_STATUSES.join(', ')}` });
+            return;
+        }
+
+        const filter = status ? { status } : {};
+        const [products, total] = await Promise.all([
+            Product.find(filter)
+                .populate('category', 'name')
+                .sort({ updatedAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit),
+            Product.countDocuments(filter)
+        ]);
+
+        res.status(200).json({
+            products,
+            total,
+            page,
+            pages: Math.ceil(total / limit)
+        });
+    } catch (error) {
+        console.error('Error fetching admin products:', error);
+        res.status(500).json({ error: "Error fetching products" });
+    }
+};
+
+// Change status and/or the publish schedule
+export const updateProductStatus = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const product = await Product.findById(req.params.id);
+        if (!product) {
+            res.status(404).json({ error: "Product not found" });
+            return;
+        }
+
+        const lifecycle = parseLifecycle(req.body);
+        if ('error' in lifecycle) {
+            res.status(400).json({ error: lifecycle.error });
+            return;
+        }
 
-        await product.deleteOne();
+        applyLifecycle(product, lifecycle);
 
-        await deleteImages(imagesToDelete);
+        if (product.publishAt && product.unpublishAt && product.unpublishAt <= product.publishAt) {
+            res.status(400).json({ error: "unpublishAt must be after publishAt" });
+            return;
+        }
 
-        res.status(200).json({ message: "Product deleted successfully" });
+        await product.save();
+        res.status(200).json(product);
     } catch (error) {
-        res.status(500).json({ error: "Error deleting product", details: error });
+        res.status(500).json({ error: "Error updating product status", details: error });
+    }
+};
+
+// Brings an archived product back as a draft (or straight to `status` if given)
+export const restoreProduct = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const product = await Product.findById(req.params.id);
+        if (!product) {
+            res.status(404).json({ error: "Product not found" });
+            return;
+        }
+
+        if (product.status !== 'ARCHIVED') {
+            res.status(400).json({ error: "Only archived products can be restored" });
+            return;
+        }
+
+        const status = req.body?.status || 'DRAFT';
+        if (status !== 'DRAFT' && status !== 'PUBLISHED') {
+            res.status(400).json({ error: "status must be DRAFT or PUBLISHED" });
+            return;
+        }
+
+        applyLifecycle(product, { status });
+        await product.save();
+
+        res.status(200).json({ message: "Product restored successfully", product });
+    } catch (error) {
+        res.status(500).json({ error: "Error restoring product", details: error });
     }
 };
 
@@ -272,6 +632,7 @@ export const recommendProducts = async (req: Request, res: Response): Promise<vo
 
         // Find other products with valid descriptions
         const products = await Product.find({
+            ...publishedFilter(),
             _id: { $ne: id },
             description: { 
                 $exists: true, 
@@ -390,6 +751,7 @@ export const getFeaturedProducts = async (req: Request, res: Response): Promise<
   try {
     // Get top 8 products by average rating
     const featuredProducts = await Product.find({ 
+      ...publishedFilter(),
       averageRating: { $exists: true, $gt: 0 } 
     })
       .sort({ averageRating: -1, createdAt: -1 })
@@ -420,20 +782,27 @@ export const getSearchSuggestions = async (req: Request, res: Response): Promise
     }
 
     const searchQuery = query.trim();
+    if (searchQuery.length > MAX_SEARCH_LENGTH) {
+      res.status(400).json({
+        error: `Query parameter 'q' must be at most ${MAX_SEARCH_LENGTH} characters`,
+        suggestions: []
+      });
+      return;
+    }
+
+    const now = new Date();
+    const filter = { ...publishedFilter(now), stock: { $gt: 0 } };
+    const productSearch = await buildProductSearch(searchQuery, filter);
 
-    // Simple aggregation that should work
     const suggestions = await Product.aggregate([
       {
-        $match: {
-          $or: [
-            { name: { $regex: searchQuery, $options: 'i' } },
-            { description: { $regex: searchQuery, $options: 'i' } }
-          ],
-          stock: { $gt: 0 }
-        }
+        $match: applySearch(productSearch, filter)
+      },
+      {
+        $addFields: { score: productSearch.score }
       },
       {
-        $sort: { name: 1 }
+        $sort: { score: -1, name: 1 }
       },
       {
         $limit: limit
@@ -443,7 +812,8 @@ export const getSearchSuggestions = async (req: Request, res: Response): Promise
           _id: { $toString: "$_id" }, // Convert ObjectId to string
           name: 1,
           price: 1,
-          originalPrice: 1,
+          compareAtPrice: 1,
+          effectivePrice: effectivePriceExpression(now),
           mainImage: 1,
           stock: 1,
           category: 1
@@ -0,0 +1,272 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Product, { IProduct } from '../model/Product';
+import Category from '../model/Category';
+import { parseCsv, toCsv } from '../utils/Csv';
+import { isSkuTaken } from '../utils/Identifiers';
+import { StockError, StockMovementDetails, changeStock, runInTransaction, setStockLevel, stockActor } from '../utils/Inventory';
+import { pricingError } from '../utils/Pricing';
+import { AuthenticatedRequest } from '../middleware/User';
+
+// Import and export share one format so an export can be edited and re-imported
+const CSV_COLUMNS = ['sku', 'name', 'description', 'price', 'stock', 'category', 'mainImage', 'subImages'] as const;
+const SUB_IMAGE_SEPARATOR = '|';
+const MAX_SUB_IMAGES = 3;
+
+type CsvColumn = typeof CSV_COLUMNS[number];
+
+interface ImportRow {
+  row: number; // CSV record number, counting the header as row 1
+  action: 'create' | 'update';
+  productId?: mongoose.Types.ObjectId;
+  values: {
+    sku?: string;
+    name: string;
+    description?: string;
+    price: number;
+    stock?: number;
+    category: mongoose.Types.ObjectId;
+    mainImage?: string;
+    subImages?: string[];
+  };
+}
+
+const isImageUrl = (value: string): boolean => /^https?:\/\/\S+$/i.test(value);
+
+// Resolves each row against the catalog without writing anything
+const validateRows = async (records: Record<CsvColumn, string>[]) => {
+  const categories = await Category.find({}, { name: 1 });
+  const categoryByName = new Map(
+    categories.map(category => [category.name.toLowerCase(), category._id as mongoose.Types.ObjectId])
+  );
+
+  const errors: { row: number; errors: string[] }[] = [];
+  const rows: ImportRow[] = [];
+  const seenKeys = new Map<string, number>();
+
+  for (const [index, record] of records.entries()) {
+    const row = index + 2;
+    const rowErrors: string[] = [];
+
+    const sku = record.sku?.trim() || undefined;
+    const name = record.name?.trim();
+    const key = sku ? `sku:${sku}` : `name:${name?.toLowerCase()}`;
+
+    if (!name) rowErrors.push('name is required');
+
+    if (seenKeys.has(key)) {
+      rowErrors.push(`duplicates row ${seenKeys.get(key)}`);
+    } else {
+      seenKeys.set(key, row);
+    }
+
+    const price = parseFloat(record.price);
+    if (record.price?.trim() === '' || isNaN(price) || price < 0) {
+      rowErrors.push('price must be a number of at least 0');
+    }
+
+    let stock: number | undefined;
+    if (record.stock?.trim()) {
+      stock = Number(record.stock);
+      if (!Number.isInteger(stock) || stock < 0) rowErrors.push('stock must be a whole number of at least 0');
+    }
+
+    const category = categoryByName.get(record.category?.trim().toLowerCase() || '');
+    if (!category) rowErrors.push(`category "${record.category || ''}" does not exist`);
+
+    const mainImage = record.mainImage?.trim() || undefined;
+    if (mainImage && !isImageUrl(mainImage)) rowErrors.push('mainImage must be an http(s) URL');
+
+    const subImages = record.subImages?.trim()
+      ? record.subImages.split(SUB_IMAGE_SEPARATOR).map(url => url.trim()).filter(Boolean)
+      : undefined;
+    if (subImages?.some(url => !isImageUrl(url))) rowErrors.push('subImages must be http(s) URLs separated by "|"');
+    if (subImages && subImages.length > MAX_SUB_IMAGES) rowErrors.push(`at most ${MAX_SUB_IMAGES} subImages are allowed`);
+
+    // Match by SKU when given, otherwise by exact name
+    const matches = sku
+      ? await Product.find({ sku }, { _id: 1 }).limit(2)
+      : name ? await Product.find({ name }, { _id: 1 }).limit(2) : [];
+    if (!sku && matches.length > 1) rowErrors.push(`more than one product is named "${name}"; add a sku`);
+
+    const existing = matches[0];
+    if (!existing && sku && await isSkuTaken(Product, sku)) rowErrors.push(`sku "${sku}" is already used by a variant`);
+    if (!existing && !mainImage) rowErrors.push('mainImage is required for new products');
+
+    if (rowErrors.length > 0) {
+      errors.push({ row, errors: rowErrors });
+      continue;
+    }
+
+    const importRow: ImportRow = {
+      row,
+      action: existing ? 'update' : 'create',
+      productId: existing?._id,
+      values: {
+        sku,
+        name: name!,
+        description: record.description,
+        price,
+        stock,
+        category: category!,
+        mainImage,
+        subImages
+      }
+    };
+
+    // Run the schema's own validation too, so nothing can fail once saving has started
+    const prepared = await prepareRow(importRow);
+    const validation = prepared?.product.validateSync();
+    if (validation) {
+      errors.push({ row, errors: Object.values(validation.errors).map(error => error.message) });
+      continue;
+    }
+
+    // A new price must still sit above the product's sale price and below its compare-at price
+    const pricingProblem = prepared && prepared.product.variants.length === 0 ? pricingError(prepared.product) : null;
+    if (pricingProblem) {
+      errors.push({ row, errors: [pricingProblem] });
+      continue;
+    }
+
+    rows.push(importRow);
+  }
+
+  return { rows, errors };
+};
+
+// Loads or creates the product and sets the row's values on it, without saving
+const prepareRow = async (
+  { action, productId, values }: ImportRow,
+  actor?: StockMovementDetails['actor'],
+  session?: mongoose.ClientSession
+) => {
+  const product: IProduct | null = action === 'update'
+    ? await Product.findById(productId).session(session || null)
+    : new Product({ stock: 0 });
+  if (!product) return null;
+
+  if (values.sku) product.sku = values.sku;
+  product.name = values.name;
+  if (values.description !== undefined) product.description = values.description;
+  product.price = values.price;
+  product.category = values.category;
+  if (values.mainImage) product.mainImage = values.mainImage;
+  if (values.subImages) product.subImages = values.subImages;
+
+  // Opening stock of a new product; an existing product's stock is set once it is saved
+  const movement = action === 'create' && values.stock
+    ? changeStock(product, undefined, values.stock, { reason: 'RESTOCK', actor, note: 'CSV import' })
+    : null;
+
+  return { product, movement: movement && !('error' in movement) ? movement : null };
+};
+
+// POST text/csv; ?dryRun=true validates and reports what would change without saving
+export const importProducts = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (typeof req.body !== 'string' || !req.body.trim()) {
+      res.status(400).json({ error: 'Send the CSV file as the request body with Content-Type text/csv' });
+      return;
+    }
+
+    const [header, ...lines] = parseCsv(req.body);
+    const columns = header.map(column => column.trim());
+
+    const missing = ['name', 'price', 'category'].filter(column => !columns.includes(column));
+    const unknown = columns.filter(column => !(CSV_COLUMNS as readonly string[]).includes(column));
+    if (missing.length > 0 || unknown.length > 0) {
+      res.status(400).json({
+        error: 'Invalid CSV header',
+        missingColumns: missing,
+        unknownColumns: unknown,
+        expectedColumns: CSV_COLUMNS
+      });
+      return;
+    }
+
+    if (lines.length === 0) {
+      res.status(400).json({ error: 'CSV has no product rows' });
+      return;
+    }
+
+    const records = lines.map(cells =>
+      Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ''])) as Record<CsvColumn, string>
+    );
+
+    const { rows, errors } = await validateRows(records);
+    const summary = {
+      total: records.length,
+      create: rows.filter(row => row.action === 'create').length,
+      update: rows.filter(row => row.action === 'update').length
+    };
+
+    // All or nothing: a single bad row means nothing is imported
+    if (errors.length > 0) {
+      res.status(400).json({ error: 'Some rows are invalid; nothing was imported', summary, errors });
+      return;
+    }
+
+    const dryRun = req.query.dryRun === 'true';
+    if (!dryRun) {
+      const actor = stockActor(req.user);
+      await runInTransaction(async session => {
+        for (const row of rows) {
+          const prepared = await prepareRow(row, actor, session);
+          if (!prepared) continue;
+          await prepared.product.save({ session });
+          if (prepared.movement) await prepared.movement.save({ session });
+
+          // Products with variants keep their stock per variant, which the import doesn't cover
+          if (row.action === 'update' && row.values.stock !== undefined && prepared.product.variants.length === 0) {
+            await setStockLevel(prepared.product, undefined, row.values.stock, {
+              reason: 'CORRECTION',
+              actor,
+              note: 'CSV import'
+            }, { session });
+          }
+        }
+      });
+    }
+
+    res.status(dryRun ? 200 : 201).json({
+      message: dryRun ? 'Dry run passed; no changes were saved' : 'Products imported successfully',
+      dryRun,
+      summary,
+      rows: rows.map(({ row, action, values }) => ({ row, action, sku: values.sku, name: values.name }))
+    });
+  } catch (error) {
+    if (error instanceof StockError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error('Error importing products:', error);
+    res.status(500).json({ error: 'Error importing products', details: error });
+  }
+};
+
+export const exportProducts = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const products = await Product.find({})
+      .sort({ createdAt: 1 })
+      .populate<{ category: { name: string } | null }>('category', 'name');
+
+    const rows = products.map(product => [
+      product.sku,
+      product.name,
+      product.description,
+      product.price,
+      product.stock,
+      product.category?.name,
+      product.mainImage,
+      (product.subImages || []).join(SUB_IMAGE_SEPARATOR)
+    ]);
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="products-${new Date().toISOString().slice(0, 10)}.csv"`);
+    res.status(200).send(toCsv([...CSV_COLUMNS], rows));
+  } catch (error) {
+    console.error('Error exporting products:', error);
+    res.status(500).json({ error: 'Error exporting products' });
+  }
+};
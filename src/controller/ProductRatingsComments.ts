@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
-import Product, { IProduct, IComment, IReply, IRating } from '../model/Product';
+import Product, { IProduct, IComment, IReply, IRating, publishedFilter } from '../model/Product';
 import mongoose from 'mongoose';
+import { AuthenticatedRequest } from '../middleware/User';
 
 // Helper function to find subdocument by ID
 const findCommentById = (product: IProduct, commentId: string): IComment | null => {
@@ -15,14 +16,20 @@ const findReplyById = (comment: IComment, replyId: string): IReply | null => {
   ) || null;
 };
 
+// Only published products can be reviewed; deleting existing comments still works on any product
+const findPublishedProduct = (productId: string) => {
+  return Product.findOne({ _id: productId, ...publishedFilter() });
+};
+
 // Add rating to a product
-export const addRating = async (req: Request, res: Response): Promise<void> => {
+export const addRating = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { productId } = req.params;
-    const { user, value } = req.body;
+    const user = req.user!.username;
+    const { value } = req.body;
 
-    if (!user || !value) {
-      res.status(400).json({ error: 'User and rating value are required' });
+    if (!value) {
+      res.status(400).json({ error: 'Rating value is required' });
       return;
     }
 
@@ -31,7 +38,7 @@ export const addRating = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    const product = await Product.findById(productId);
+    const product = await findPublishedProduct(productId);
     if (!product) {
       res.status(404).json({ error: 'Product not found' });
       return;
@@ -67,17 +74,18 @@ export const addRating = async (req: Request, res: Response): Promise<void> => {
 };
 
 // Add comment to a product
-export const addComment = async (req: Request, res: Response): Promise<void> => {
+export const addComment = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { productId } = req.params;
-    const { user, text } = req.body;
+    const user = req.user!.username;
+    const { text } = req.body;
 
-    if (!user || !text) {
-      res.status(400).json({ error: 'User and text are required' });
+    if (!text) {
+      res.status(400).json({ error: 'Text is required' });
       return;
     }
 
-    const product = await Product.findById(productId);
+    const product = await findPublishedProduct(productId);
     if (!product) {
       res.status(404).json({ error: 'Product not found' });
       return;
@@ -102,17 +110,18 @@ export const addComment = async (req: Request, res: Response): Promise<void> =>
 };
 
 // Add reply to a comment
-export const addReply = async (req: Request, res: Response): Promise<void> => {
+export const addReply = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { productId, commentId } = req.params;
-    const { user, text } = req.body;
+    const user = req.user!.username;
+    const { text } = req.body;
 
-    if (!user || !text) {
-      res.status(400).json({ error: 'User and text are required' });
+    if (!text) {
+      res.status(400).json({ error: 'Text is required' });
       return;
     }
 
-    const product = await Product.findById(productId);
+    const product = await findPublishedProduct(productId);
     if (!product) {
       res.status(404).json({ error: 'Product not found' });
       return;
@@ -142,17 +151,12 @@ export const addReply = async (req: Request, res: Response): Promise<void> => {
 };
 
 // Like a comment
-export const likeComment = async (req: Request, res: Response): Promise<void> => {
+export const likeComment = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { productId, commentId } = req.params;
-    const { username } = req.body;
+    const username = req.user!.username;
 
-    if (!username) {
-      res.status(400).json({ error: 'Username is required' });
-      return;
-    }
-
-    const product = await Product.findById(productId);
+    const product = await findPublishedProduct(productId);
     if (!product) {
       res.status(404).json({ error: 'Product not found' });
       return;
@@ -183,17 +187,12 @@ export const likeComment = async (req: Request, res: Response): Promise<void> =>
 };
 
 // Like a reply
-export const likeReply = async (req: Request, res: Response): Promise<void> => {
+export const likeReply = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { productId, commentId, replyId } = req.params;
-    const { username } = req.body;
+    const username = req.user!.username;
 
-    if (!username) {
-      res.status(400).json({ error: 'Username is required' });
-      return;
-    }
-
-    const product = await Product.findById(productId);
+    const product = await findPublishedProduct(productId);
     if (!product) {
       res.status(404).json({ error: 'Product not found' });
       return;
@@ -230,15 +229,10 @@ export const likeReply = async (req: Request, res: Response): Promise<void> => {
 };
 
 // Delete a comment
-export const deleteComment = async (req: Request, res: Response): Promise<void> => {
+export const deleteComment = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { productId, commentId } = req.params;
-    const { username } = req.body;
-
-    if (!username) {
-      res.status(400).json({ error: 'Username is required' });
-      return;
-    }
+    const username = req.user!.username;
 
     const product = await Product.findById(productId);
     if (!product) {
@@ -271,15 +265,10 @@ export const deleteComment = async (req: Request, res: Response): Promise<void>
 };
 
 // Delete a reply
-export const deleteReply = async (req: Request, res: Response): Promise<void> => {
+export const deleteReply = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { productId, commentId, replyId } = req.params;
-    const { username } = req.body;
-
-    if (!username) {
-      res.status(400).json({ error: 'Username is required' });
-      return;
-    }
+    const username = req.user!.username;
 
     const product = await Product.findById(productId);
     if (!product) {
@@ -327,7 +316,7 @@ export const getProductReviews = async (req: Request, res: Response): Promise<vo
       return;
     }
 
-    const product = await Product.findById(productId)
+    const product = await findPublishedProduct(productId)
       .select('ratings comments averageRating')
       .lean();
 
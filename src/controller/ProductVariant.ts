@@ -0,0 +1,321 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { AuthenticatedRequest } from '../middleware/User';
+import Product from '../model/Product';
+import { uploadToCloudinary, deleteFromCloudinary } from '../utils/Cloudinary';
+import { findVariant, isSkuInProduct, validateOptions, validateVariantOptions } from '../utils/Variants';
+import { isSkuTaken } from '../utils/Identifiers';
+import { applyPricing, parsePricing, pricingError } from '../utils/Pricing';
+import { StockError, adjustStock, parseExpectedStock, runInTransaction, setStockLevel, stockActor } from '../utils/Inventory';
+
+const CLOUDINARY_FOLDER = 'products';
+
+// Multipart requests send nested values as JSON strings
+const parseJsonField = (value: unknown): unknown => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+};
+
+const isDuplicateSku = (error: any): boolean => error?.code === 11000;
+
+// Define the option axes (e.g. size, color) variants choose from
+export const setProductOptions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const product = await Product.findById(req.params.productId);
+    if (!product) {
+      res.status(404).json({ error: 'Product not found' });
+      return;
+    }
+
+    const options = validateOptions(req.body.options);
+    if (typeof options === 'string') {
+      res.status(400).json({ error: options });
+      return;
+    }
+
+    // Existing variants must still make sense under the new axes
+    const invalid = product.variants.find(variant =>
+      variant.options.size !== options.length
+      || options.some(option => !option.values.includes(variant.options.get(option.name) || ''))
+    );
+    if (invalid) {
+      res.status(400).json({ error: `Variant ${invalid.sku} does not fit the new options. Update or remove it first.` });
+      return;
+    }
+
+    product.options = options;
+    await product.save();
+
+    res.status(200).json(product);
+  } catch (error) {
+    res.status(500).json({ error: 'Error updating product options', details: error });
+  }
+};
+
+export const addVariant = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { sku, price, stock } = req.body;
+
+    const product = await Product.findById(req.params.productId);
+    if (!product) {
+      res.status(404).json({ error: 'Product not found' });
+      return;
+    }
+
+    if (product.options.length === 0) {
+      res.status(400).json({ error: 'Define product options before adding variants' });
+      return;
+    }
+
+    if (!sku?.trim() || price === undefined || isNaN(parseFloat(price))) {
+      res.status(400).json({ error: 'SKU and price are required' });
+      return;
+    }
+    if (parseFloat(price) < 0) {
+      res.status(400).json({ error: 'price must be at least 0' });
+      return;
+    }
+
+    const options = validateVariantOptions(product, parseJsonField(req.body.options));
+    if (typeof options === 'string') {
+      res.status(400).json({ error: options });
+      return;
+    }
+
+    // Sale amounts only; the sale window is set on the product
+    const pricing = parsePricing(req.body);
+    if ('error' in pricing) {
+      res.status(400).json({ error: pricing.error });
+      return;
+    }
+
+    if (isSkuInProduct(product, sku.trim()) || await isSkuTaken(Product, sku.trim())) {
+      res.status(409).json({ error: 'SKU is already in use' });
+      return;
+    }
+
+    // Once there are variants the product's stock is their sum, so stock held on the product
+    // itself is written off here rather than silently dropped by the save
+    const productStock = product.variants.length === 0 ? product.stock : 0;
+
+    product.variants.push({
+      sku: sku.trim(),
+      options,
+      price: parseFloat(price),
+      compareAtPrice: pricing.compareAtPrice ?? undefined,
+      salePrice: pricing.salePrice ?? undefined,
+      stock: 0
+    });
+
+    const pricingProblem = pricingError(product);
+    if (pricingProblem) {
+      res.status(400).json({ error: pricingProblem });
+      return;
+    }
+
+    if (req.file) {
+      product.variants[product.variants.length - 1].image = await uploadToCloudinary(req.file.buffer, CLOUDINARY_FOLDER);
+    }
+
+    // Opening stock goes through the ledger once the variant exists
+    const initialStock = parseInt(stock) || 0;
+    const variantId = product.variants[product.variants.length - 1]._id.toString();
+
+    const saved = await runInTransaction(async session => {
+      if (productStock > 0) {
+        const withoutVariants = await Product.findById(product._id).session(session);
+        if (!withoutVariants) throw new StockError('Product not found', 404);
+        await adjustStock(withoutVariants, undefined, -productStock, {
+          reason: 'CORRECTION',
+          actor: stockActor(req.user),
+          note: 'Stock moved to variants'
+        }, { session, expectedStock: productStock });
+      }
+
+      // A version check on save, so two requests can't both add a variant with the same SKU
+      product.increment();
+      await product.save({ session });
+      if (initialStock <= 0) return product;
+
+      const result = await adjustStock(product, variantId, initialStock, {
+        reason: 'RESTOCK',
+        actor: stockActor(req.user),
+        note: 'Opening stock'
+      }, { session });
+      return result.product;
+    });
+
+    res.status(201).json(saved);
+  } catch (error) {
+    if (error instanceof StockError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    if (error instanceof mongoose.Error.VersionError) {
+      res.status(409).json({ error: 'The product was changed by someone else; reload and try again' });
+      return;
+    }
+    if (isDuplicateSku(error)) {
+      res.status(409).json({ error: 'SKU is already in use' });
+      return;
+    }
+    res.status(500).json({ error: 'Error adding variant', details: error });
+  }
+};
+
+export const updateVariant = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { productId, variantId } = req.params;
+    const { sku, price, stock } = req.body;
+
+    const product = await Product.findById(productId);
+    if (!product) {
+      res.status(404).json({ error: 'Product not found' });
+      return;
+    }
+
+    const variant = findVariant(product, variantId);
+    if (!variant) {
+      res.status(404).json({ error: 'Variant not found' });
+      return;
+    }
+
+    if (req.body.options !== undefined) {
+      const options = validateVariantOptions(product, parseJsonField(req.body.options), variantId);
+      if (typeof options === 'string') {
+        res.status(400).json({ error: options });
+        return;
+      }
+      variant.options = new Map(Object.entries(options));
+    }
+
+    const pricing = parsePricing(req.body);
+    if ('error' in pricing) {
+      res.status(400).json({ error: pricing.error });
+      return;
+    }
+
+    if (sku?.trim() && sku.trim() !== variant.sku) {
+      if (isSkuInProduct(product, sku.trim(), variantId) || await isSkuTaken(Product, sku.trim())) {
+        res.status(409).json({ error: 'SKU is already in use' });
+        return;
+      }
+      variant.sku = sku.trim();
+    }
+    if (price !== undefined && price !== '') {
+      const amount = parseFloat(price);
+      if (isNaN(amount) || amount < 0) {
+        res.status(400).json({ error: 'price must be a number of at least 0' });
+        return;
+      }
+      variant.price = amount;
+    }
+    applyPricing(variant, pricing, true);
+
+    const pricingProblem = pricingError(product);
+    if (pricingProblem) {
+      res.status(400).json({ error: pricingProblem });
+      return;
+    }
+
+    const stockLevel = stock !== undefined && !isNaN(parseInt(stock)) ? parseInt(stock) : undefined;
+    if (stockLevel !== undefined && stockLevel < 0) {
+      res.status(400).json({ error: 'stock must be at least 0' });
+      return;
+    }
+    const expectedStock = parseExpectedStock(req.body.expectedStock);
+    if (typeof expectedStock === 'object') {
+      res.status(400).json({ error: expectedStock.error });
+      return;
+    }
+
+    let oldImage: string | undefined;
+    if (req.file) {
+      oldImage = variant.image;
+      variant.image = await uploadToCloudinary(req.file.buffer, CLOUDINARY_FOLDER);
+    }
+
+    // Logged as a correction, and only if nobody changed the stock since the form was loaded
+    // (expectedStock) or, without it, since this request loaded it; use the stock adjustment
+    // endpoint to record another reason
+    const saved = await runInTransaction(async session => {
+      product.increment();
+      await product.save({ session });
+      if (stockLevel === undefined) return product;
+
+      const result = await setStockLevel(product, variantId, stockLevel, {
+        reason: 'CORRECTION',
+        actor: stockActor(req.user)
+      }, { session, expectedStock });
+      return result ? result.product : product;
+    });
+
+    if (oldImage) {
+      await deleteFromCloudinary(oldImage);
+    }
+
+    res.status(200).json(saved);
+  } catch (error) {
+    if (error instanceof StockError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    if (error instanceof mongoose.Error.VersionError) {
+      res.status(409).json({ error: 'The product was changed by someone else; reload and try again' });
+      return;
+    }
+    if (isDuplicateSku(error)) {
+      res.status(409).json({ error: 'SKU is already in use' });
+      return;
+    }
+    res.status(500).json({ error: 'Error updating variant', details: error });
+  }
+};
+
+export const deleteVariant = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { productId, variantId } = req.params;
+
+    const product = await Product.findById(productId);
+    if (!product) {
+      res.status(404).json({ error: 'Product not found' });
+      return;
+    }
+
+    const variant = findVariant(product, variantId);
+    if (!variant) {
+      res.status(404).json({ error: 'Variant not found' });
+      return;
+    }
+
+    // Write off whatever stock the variant still had so the ledger balances
+    await runInTransaction(async session => {
+      if (variant.stock > 0) {
+        await adjustStock(product, variantId, -variant.stock, {
+          reason: 'CORRECTION',
+          actor: stockActor(req.user),
+          note: 'Variant removed'
+        }, { session, expectedStock: variant.stock });
+      }
+
+      product.variants.pull(variant._id);
+      await product.save({ session });
+    });
+
+    if (variant.image) {
+      await deleteFromCloudinary(variant.image);
+    }
+
+    res.status(200).json(product);
+  } catch (error) {
+    if (error instanceof StockError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    res.status(500).json({ error: 'Error deleting variant', details: error });
+  }
+};
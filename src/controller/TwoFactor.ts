@@ -0,0 +1,213 @@
+import { Response, NextFunction } from 'express';
+import User from '../model/User';
+import { AuthenticatedRequest } from '../middleware/User';
+import { isStaffRole } from '../config/Roles';
+import { comparePassword } from '../utils/Password';
+import { buildOtpAuthUri, generateRecoveryCodes, generateTotpSecret } from '../utils/Totp';
+import { consumeRecoveryCode, consumeTotpCode, hashRecoveryCodes } from '../utils/TwoFactor';
+import { getSecuritySettings, updateSecuritySettings } from '../utils/Settings';
+
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'Haina Hola Ki Ho';
+
+// Start enrollment: the secret stays pending until the user proves their app works
+export const setupTwoFactor = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const user = await User.findById(req.user!.userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    if (user.twoFactorEnabled) {
+      res.status(400).json({ message: 'Two-factor authentication is already enabled' });
+      return;
+    }
+
+    const secret = generateTotpSecret();
+    user.twoFactorPendingSecret = secret;
+    await user.save();
+
+    res.json({
+      message: 'Scan the QR code with your authenticator app, then confirm with a code',
+      secret,
+      otpauthUri: buildOtpAuthUri(secret, user.email, TOTP_ISSUER)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const enableTwoFactor = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { code } = req.body;
+
+    if (!code) {
+      res.status(400).json({ message: 'Authentication code is required' });
+      return;
+    }
+
+    const user = await User.findById(req.user!.userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    if (!user.twoFactorPendingSecret) {
+      res.status(400).json({ message: 'No two-factor setup in progress. Please start setup first.' });
+      return;
+    }
+
+    user.twoFactorSecret = user.twoFactorPendingSecret;
+    user.twoFactorLastUsedStep = undefined;
+    if (!(await consumeTotpCode(user, code))) {
+      res.status(400).json({ message: 'Invalid authentication code' });
+      return;
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    user.twoFactorEnabled = true;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorRecoveryCodes = hashRecoveryCodes(recoveryCodes);
+    await user.save();
+
+    res.json({
+      message: 'Two-factor authentication enabled. Store these recovery codes somewhere safe; they will not be shown again.',
+      recoveryCodes
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const disableTwoFactor = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { password, code, recoveryCode } = req.body;
+
+    if (!password || (!code && !recoveryCode)) {
+      res.status(400).json({ message: 'Password and an authentication or recovery code are required' });
+      return;
+    }
+
+    const user = await User.findById(req.user!.userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    if (!user.twoFactorEnabled) {
+      res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+      return;
+    }
+
+    const { requireTwoFactorForStaff } = await getSecuritySettings();
+    if (requireTwoFactorForStaff && isStaffRole(user.role)) {
+      res.status(403).json({ message: 'Two-factor authentication is required for staff accounts' });
+      return;
+    }
+
+    // Only spend the code once the password is known to be right
+    const isMatch = await comparePassword(password, user.password);
+    const verified = isMatch && (code ? await consumeTotpCode(user, code) : await consumeRecoveryCode(user, recoveryCode));
+    if (!verified) {
+      res.status(401).json({ message: 'Invalid password or authentication code' });
+      return;
+    }
+
+    user.twoFactorEnabled = false;
+    user.twoFactorSecret = undefined;
+    user.twoFactorRecoveryCodes = [];
+    user.twoFactorLastUsedStep = undefined;
+    await user.save();
+
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const regenerateRecoveryCodes = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { code } = req.body;
+
+    if (!code) {
+      res.status(400).json({ message: 'Authentication code is required' });
+      return;
+    }
+
+    const user = await User.findById(req.user!.userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    if (!user.twoFactorEnabled) {
+      res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+      return;
+    }
+
+    if (!(await consumeTotpCode(user, code))) {
+      res.status(401).json({ message: 'Invalid authentication code' });
+      return;
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    user.twoFactorRecoveryCodes = hashRecoveryCodes(recoveryCodes);
+    await user.save();
+
+    res.json({
+      message: 'New recovery codes generated. Previous codes no longer work.',
+      recoveryCodes
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// For users who lost their authenticator and recovery codes
+export const resetUserTwoFactor = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { userId } = req.params;
+
+    const user = await User.findById(userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    user.twoFactorEnabled = false;
+    user.twoFactorSecret = undefined;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorRecoveryCodes = [];
+    user.twoFactorLastUsedStep = undefined;
+    await user.save();
+
+    res.json({ message: 'Two-factor authentication reset for user' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getSecuritySettingsHandler = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    res.json({ settings: await getSecuritySettings() });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateSecuritySettingsHandler = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { requireTwoFactorForStaff } = req.body;
+
+    if (typeof requireTwoFactorForStaff !== 'boolean') {
+      res.status(400).json({ message: 'requireTwoFactorForStaff must be a boolean' });
+      return;
+    }
+
+    const settings = await updateSecuritySettings({ requireTwoFactorForStaff }, req.user!.userId);
+
+    res.json({ message: 'Security settings updated successfully', settings });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,8 +1,94 @@
 import { Request, Response, NextFunction } from 'express';
-import User from '../model/User';
-import { generateAccessToken, generateRefreshToken, verifyRefreshToken } from '../utils/Jwt';
-import { comparePassword, hashPassword } from '../utils/Password';
-import { generateOTP, sendOTPEmail } from '../utils/Otp';
+import mongoose from 'mongoose';
+import crypto from 'crypto';
+import User, { IUser } from '../model/User';
+import Session from '../model/Session';
+import { AuthenticatedRequest } from '../middleware/User';
+import { ROLES, getPermissions, isValidRole } from '../config/Roles';
+import { generateTwoFactorChallengeToken, verifyRefreshToken, verifyTwoFactorChallengeToken } from '../utils/Jwt';
+import { createSession, hashToken, revokeAllSessions, revokeSession, rotateSession } from '../utils/Session';
+import { comparePassword } from '../utils/Password';
+import {
+  OTPVerificationResult,
+  getOTPCooldown,
+  issueOTP,
+  revokeOTPs,
+  sendLoginCodeEmail,
+  sendOTPEmail,
+  sendVerificationEmail,
+  verifyOTPCode
+} from '../utils/Otp';
+import { sendMail } from '../utils/Mailer';
+import {
+  THROTTLE_POLICIES,
+  accountKey,
+  checkThrottle,
+  clearThrottle,
+  ipKey,
+  otpKey,
+  recordFailure
+} from '../utils/Throttle';
+import { consumeRecoveryCode, consumeTotpCode } from '../utils/TwoFactor';
+import { getActiveSuspension, suspendedResponse } from '../utils/Suspension';
+import { verifyIdToken } from '../utils/Oidc';
+import { OIDC_PROVIDERS, isOidcProvider } from '../config/OidcProviders';
+import Order from '../model/Order';
+import { renameReviewAuthor } from '../model/Product';
+
+const EMAIL_VERIFICATION_EXPIRY_MS = 30 * 60 * 1000; // 30 minutes
+const PASSWORD_RESET_OTP_EXPIRY_MS = 5 * 60 * 1000; // 5 minutes
+const RESET_TOKEN_EXPIRY_MS = 10 * 60 * 1000; // 10 minutes
+const LOGIN_OTP_EXPIRY_MS = PASSWORD_RESET_OTP_EXPIRY_MS;
+
+const OTP_ERROR_MESSAGES: { [result in Exclude<OTPVerificationResult, 'VALID'>]: string } = {
+  NOT_FOUND: 'No OTP request found. Please request a new OTP.',
+  EXPIRED: 'OTP has expired. Please request a new one.',
+  INVALID: 'Invalid OTP. Please check your code and try again.',
+  TOO_MANY_ATTEMPTS: 'Too many incorrect attempts. Please request a new OTP.'
+};
+
+const sendTooManyAttempts = (res: Response, retryAfter: number, message: string): void => {
+  res.set('Retry-After', retryAfter.toString());
+  res.status(429).json({ message, retryAfter });
+};
+
+// Counts a failed sign-in step against the account and IP, emailing the user on lockout
+const recordFailedLogin = async (user: IUser, req: Request): Promise<void> => {
+  await recordFailure(ipKey(req.ip), THROTTLE_POLICIES.ip);
+  const { locked } = await recordFailure(accountKey(user._id.toString()), THROTTLE_POLICIES.account);
+
+  if (locked) {
+    try {
+      await sendMail(user.email, 'account-locked', {
+        username: user.username,
+        unlockAt: new Date(Date.now() + THROTTLE_POLICIES.account.lockMs).toUTCString()
+      });
+    } catch (emailError) {
+      console.error('Account locked email sending failed:', emailError);
+    }
+  }
+};
+
+const sendLoginSuccess = async (user: IUser, req: Request, res: Response): Promise<void> => {
+  await clearThrottle(accountKey(user._id.toString()));
+
+  const { accessToken, refreshToken } = await createSession(user, req);
+
+  res.json({
+    message: 'Logged in successfully',
+    accessToken,
+    refreshToken,
+    user: {
+      id: user._id,
+      username: user.username,
+      email: user.email,
+      role: user.role,
+      permissions: getPermissions(user.role),
+      isEmailVerified: user.isEmailVerified,
+      twoFactorEnabled: user.twoFactorEnabled
+    },
+  });
+};
 
 export const signup = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
@@ -12,7 +98,6 @@ export const signup = async (req: Request, res: Response, next: NextFunction): P
     }
 
     const { username, email, password } = req.body;
-    let { isAdmin } = req.body;
 
     // Validation
     if (!username?.trim()) {
@@ -35,9 +120,6 @@ export const signup = async (req: Request, res: Response, next: NextFunction): P
       return;
     }
 
-    // Prevent self-assignment of admin role
-    isAdmin = false;
-
     const existingUser = await User.findOne({ $or: [{ username }, { email }] });
     if (existingUser) {
       res.status(400).json({ message: 'User already exists' });
@@ -48,37 +130,33 @@ export const signup = async (req: Request, res: Response, next: NextFunction): P
       username, 
       email, 
       password,
-      isAdmin
+      role: 'customer', // Prevent self-assignment of staff roles
+      isEmailVerified: false
     });
 
     await user.save();
 
-    const accessToken = generateAccessToken({ 
-      userId: user._id.toString(), 
-      username: user.username,
-      email: user.email,
-      isAdmin: user.isAdmin
-    });
-    
-    const refreshToken = generateRefreshToken({ 
-      userId: user._id.toString(), 
-      username: user.username,
-      email: user.email,
-      isAdmin: user.isAdmin
-    });
+    // Don't fail signup if the email can't be sent; the user can request a new code
+    try {
+      const otp = await issueOTP(user._id.toString(), 'EMAIL_VERIFICATION', EMAIL_VERIFICATION_EXPIRY_MS);
+      await sendVerificationEmail(user.email, otp, user.username);
+    } catch (emailError) {
+      console.error('Verification email sending failed:', emailError);
+    }
 
-    user.refreshToken = refreshToken;
-    await user.save();
+    const { accessToken, refreshToken } = await createSession(user, req);
 
     res.status(201).json({
-      message: 'User created successfully',
+      message: 'User created successfully. Please check your email for a verification code.',
       accessToken,
       refreshToken,
       user: {
         id: user._id,
         username: user.username,
         email: user.email,
-        isAdmin: user.isAdmin
+        role: user.role,
+        permissions: getPermissions(user.role),
+        isEmailVerified: user.isEmailVerified
       },
     });
   } catch (error) {
@@ -96,101 +174,112 @@ export const login = async (req: Request, res: Response, next: NextFunction): Pr
       return;
     }
 
+    const ipRetryAfter = await checkThrottle(ipKey(req.ip));
+    if (ipRetryAfter > 0) {
+      sendTooManyAttempts(res, ipRetryAfter, 'Too many failed login attempts. Please try again later.');
+      return;
+    }
+
     const user = await User.findOne({ email });
     if (!user) {
+      await recordFailure(ipKey(req.ip), THROTTLE_POLICIES.ip);
       res.status(401).json({ message: 'Invalid credentials' });
       return;
     }
 
+    const accountRetryAfter = await checkThrottle(accountKey(user._id.toString()));
+    if (accountRetryAfter > 0) {
+      sendTooManyAttempts(res, accountRetryAfter, 'Too many failed login attempts for this account. Please try again later.');
+      return;
+    }
+
     const isMatch = await comparePassword(password, user.password);
     if (!isMatch) {
+      await recordFailedLogin(user, req);
       res.status(401).json({ message: 'Invalid credentials' });
       return;
     }
 
-    const accessToken = generateAccessToken({ 
-      userId: user._id.toString(), 
-      username: user.username,
-      email: user.email,
-      isAdmin: user.isAdmin
-    });
-    
-    const refreshToken = generateRefreshToken({ 
-      userId: user._id.toString(), 
-      username: user.username,
-      email: user.email,
-      isAdmin: user.isAdmin
-    });
+    // Only reveal the suspension to someone who knows the password
+    const suspension = getActiveSuspension(user);
+    if (suspension) {
+      res.status(403).json(suspendedResponse(suspension));
+      return;
+    }
 
-    user.refreshToken = refreshToken;
-    await user.save();
+    // The password was right, but no session is issued until the second factor checks out
+    if (user.twoFactorEnabled) {
+      res.json({
+        message: 'Two-factor authentication required',
+        twoFactorRequired: true,
+        challengeToken: generateTwoFactorChallengeToken(user._id.toString())
+      });
+      return;
+    }
 
-    res.json({
-      message: 'Logged in successfully',
-      accessToken,
-      refreshToken,
-      user: {
-        id: user._id,
-        username: user.username,
-        email: user.email,
-        isAdmin: user.isAdmin
-      },
-    });
+    await sendLoginSuccess(user, req, res);
   } catch (error) {
     next(error);
   }
 };
 
-export const refreshToken = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+export const verifyTwoFactorLogin = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { refreshToken } = req.body;
+    const { challengeToken, code, recoveryCode } = req.body;
 
-    if (!refreshToken) {
-      res.status(400).json({ message: 'Refresh token is required' });
+    if (!challengeToken || (!code && !recoveryCode)) {
+      res.status(400).json({ message: 'Challenge token and an authentication or recovery code are required' });
       return;
     }
 
-    const decoded = verifyRefreshToken(refreshToken);
-    const user = await User.findById(decoded.userId);
-    
-    if (!user || user.refreshToken !== refreshToken) {
-      res.status(401).json({ message: 'Invalid refresh token' });
+    let challenge;
+    try {
+      challenge = verifyTwoFactorChallengeToken(challengeToken);
+    } catch (tokenError) {
+      res.status(401).json({ message: 'Two-factor challenge has expired. Please log in again.' });
       return;
     }
 
-    const newAccessToken = generateAccessToken({
-      userId: user._id.toString(),
-      username: user.username,
-      email: user.email,
-      isAdmin: user.isAdmin
-    });
+    const user = await User.findById(challenge.userId);
+    if (!user || !user.twoFactorEnabled || !user.twoFactorSecret) {
+      res.status(401).json({ message: 'Invalid two-factor challenge' });
+      return;
+    }
 
-    res.json({
-      accessToken: newAccessToken,
-    });
-  } catch (error) {
-    next(error);
-  }
-};
+    const retryAfter = Math.max(
+      await checkThrottle(accountKey(user._id.toString())),
+      await checkThrottle(ipKey(req.ip))
+    );
+    if (retryAfter > 0) {
+      sendTooManyAttempts(res, retryAfter, 'Too many failed login attempts for this account. Please try again later.');
+      return;
+    }
 
-export const logout = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-  try {
-    const { userId } = req.body;
-    
-    if (!userId) {
-      res.status(400).json({ message: 'User ID is required' });
+    const verified = code
+      ? await consumeTotpCode(user, code)
+      : await consumeRecoveryCode(user, recoveryCode);
+
+    if (!verified) {
+      await recordFailedLogin(user, req);
+      res.status(401).json({ message: 'Invalid authentication code' });
       return;
     }
 
-    await User.findByIdAndUpdate(userId, { refreshToken: null });
-    res.json({ message: 'Logged out successfully' });
+    // The account may have been suspended while the challenge was pending
+    const suspension = getActiveSuspension(user);
+    if (suspension) {
+      res.status(403).json(suspendedResponse(suspension));
+      return;
+    }
+
+    await user.save();
+    await sendLoginSuccess(user, req, res);
   } catch (error) {
     next(error);
   }
 };
 
-// Password Reset Functions
-export const requestPasswordReset = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+export const requestLoginCode = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
     const { email } = req.body;
 
@@ -199,66 +288,55 @@ export const requestPasswordReset = async (req: Request, res: Response, next: Ne
       return;
     }
 
-    // Email validation
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(email)) {
-      res.status(400).json({ message: 'Invalid email format' });
+    const user = await User.findOne({ email });
+    if (!user) {
+      res.status(404).json({ message: 'No account found with this email address' });
       return;
     }
 
-    const user = await User.findOne({ email });
-    if (!user) {
-      // Return an error for non-existent email instead of generic success
-      res.status(404).json({ 
-        message: 'No account found with this email address. Please check your email or sign up for a new account.' 
-      });
+    const suspension = getActiveSuspension(user);
+    if (suspension) {
+      res.status(403).json(suspendedResponse(suspension));
       return;
     }
 
-    const otp = generateOTP();
-    const otpExpiry = new Date(Date.now() + 5 * 60 * 1000); // 5 minutes from now
+    const cooldown = await getOTPCooldown(user._id.toString(), 'LOGIN');
+    if (cooldown > 0) {
+      sendTooManyAttempts(res, cooldown, `Please wait ${cooldown} seconds before requesting a new code.`);
+      return;
+    }
 
-    user.resetOTP = otp;
-    user.resetOTPExpiry = otpExpiry;
-    await user.save();
+    const otp = await issueOTP(user._id.toString(), 'LOGIN', LOGIN_OTP_EXPIRY_MS);
 
     try {
-      await sendOTPEmail(user.email, otp, user.username);
-      
-      res.json({ 
-        message: 'OTP sent to your email. Valid for 5 minutes.',
-        email: user.email,
-        success: true
-      });
+      await sendLoginCodeEmail(user.email, otp, user.username);
     } catch (emailError) {
       console.error('Email sending failed:', emailError);
-      
-      // Clear the OTP if email sending failed
-      user.resetOTP = undefined;
-      user.resetOTPExpiry = undefined;
-      await user.save();
-      
-      res.status(500).json({ 
-        message: 'Failed to send OTP email. Please try again later.' 
-      });
+      await revokeOTPs(user._id.toString(), 'LOGIN');
+      res.status(500).json({ message: 'Failed to send sign-in code. Please try again later.' });
+      return;
     }
+
+    res.json({ message: 'Sign-in code sent to your email. Valid for 5 minutes.' });
   } catch (error) {
-    console.error('Password reset request error:', error);
+    console.error('Login code request error:', error);
     next(error);
   }
 };
 
-export const verifyOTPAndResetPassword = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+// Exchanges an emailed code for the same response as a password login
+export const loginWithCode = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { email, otp, newPassword } = req.body;
+    const { email, otp } = req.body;
 
-    if (!email?.trim() || !otp?.trim() || !newPassword?.trim()) {
-      res.status(400).json({ message: 'Email, OTP, and new password are required' });
+    if (!email?.trim() || !otp?.trim()) {
+      res.status(400).json({ message: 'Email and code are required' });
       return;
     }
 
-    if (newPassword.length < 6) {
-      res.status(400).json({ message: 'Password must be at least 6 characters long' });
+    const retryAfter = Math.max(await checkThrottle(otpKey(email)), await checkThrottle(ipKey(req.ip)));
+    if (retryAfter > 0) {
+      sendTooManyAttempts(res, retryAfter, 'Too many incorrect codes. Please try again later.');
       return;
     }
 
@@ -268,179 +346,1119 @@ export const verifyOTPAndResetPassword = async (req: Request, res: Response, nex
       return;
     }
 
-    if (!user.resetOTP || !user.resetOTPExpiry) {
-      res.status(400).json({ message: 'No OTP request found. Please request a new OTP.' });
+    const accountRetryAfter = await checkThrottle(accountKey(user._id.toString()));
+    if (accountRetryAfter > 0) {
+      sendTooManyAttempts(res, accountRetryAfter, 'Too many failed login attempts for this account. Please try again later.');
       return;
     }
 
-    if (new Date() > user.resetOTPExpiry) {
-      // Clear expired OTP
-      user.resetOTP = undefined;
-      user.resetOTPExpiry = undefined;
-      await user.save();
-      
-      res.status(400).json({ message: 'OTP has expired. Please request a new one.' });
+    const result = await verifyOTPCode(user._id.toString(), 'LOGIN', otp);
+    if (result !== 'VALID') {
+      if (result === 'INVALID' || result === 'TOO_MANY_ATTEMPTS') {
+        await recordFailure(otpKey(email), THROTTLE_POLICIES.otp);
+        await recordFailedLogin(user, req); // counts towards the same lockout as wrong passwords
+      }
+      res.status(400).json({ message: OTP_ERROR_MESSAGES[result] });
       return;
     }
 
-    if (user.resetOTP !== otp) {
-      res.status(400).json({ message: 'Invalid OTP. Please check your code and try again.' });
+    const suspension = getActiveSuspension(user);
+    if (suspension) {
+      res.status(403).json(suspendedResponse(suspension));
       return;
     }
 
-    // Reset password
-    user.password = newPassword; // Will be hashed by pre-save middleware
-    user.resetOTP = undefined;
-    user.resetOTPExpiry = undefined;
-    user.refreshToken = undefined; // Invalidate existing sessions
-    await user.save();
+    // Receiving the code proves the user owns the address
+    if (!user.isEmailVerified) {
+      user.isEmailVerified = true;
+      await user.save();
+    }
+    await clearThrottle(otpKey(email));
 
-    res.json({ message: 'Password reset successfully. Please login with your new password.' });
+    // The code stands in for the password only; the second factor is still required
+    if (user.twoFactorEnabled) {
+      res.json({
+        message: 'Two-factor authentication required',
+        twoFactorRequired: true,
+        challengeToken: generateTwoFactorChallengeToken(user._id.toString())
+      });
+      return;
+    }
+
+    await sendLoginSuccess(user, req, res);
   } catch (error) {
-    console.error('Password reset error:', error);
+    console.error('Login with code error:', error);
     next(error);
   }
 };
 
-export const resendOTP = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+// Picks a free username based on the provider's display name or email
+const generateUniqueUsername = async (base: string): Promise<string> => {
+  const cleaned = base.replace(/[^a-zA-Z0-9_.]/g, '').slice(0, 20) || 'user';
+  let candidate = cleaned;
+
+  while (await User.exists({ username: candidate })) {
+    candidate = `${cleaned}${crypto.randomInt(1000, 10000)}`;
+  }
+  return candidate;
+};
+
+// Signs in with a provider ID token, linking or creating the account on first use
+export const loginWithOidc = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { email } = req.body;
+    const { provider, idToken } = req.body;
 
-    if (!email?.trim()) {
-      res.status(400).json({ message: 'Email is required' });
+    if (!isOidcProvider(provider) || !idToken) {
+      res.status(400).json({ message: `provider (${OIDC_PROVIDERS.join(', ')}) and idToken are required` });
       return;
     }
 
-    const user = await User.findOne({ email });
-    if (!user) {
-      res.status(404).json({ message: 'No account found with this email address' });
+    const ipRetryAfter = await checkThrottle(ipKey(req.ip));
+    if (ipRetryAfter > 0) {
+      sendTooManyAttempts(res, ipRetryAfter, 'Too many failed login attempts. Please try again later.');
       return;
     }
 
-    const otp = generateOTP();
-    const otpExpiry = new Date(Date.now() + 5 * 60 * 1000); // 5 minutes from now
+    let claims;
+    try {
+      claims = await verifyIdToken(provider, idToken);
+    } catch (tokenError) {
+      console.error('ID token verification failed:', tokenError);
+      await recordFailure(ipKey(req.ip), THROTTLE_POLICIES.ip);
+      res.status(401).json({ message: 'Invalid ID token' });
+      return;
+    }
 
-    user.resetOTP = otp;
-    user.resetOTPExpiry = otpExpiry;
-    await user.save();
+    let user = await User.findOne({ identities: { $elemMatch: { provider, subject: claims.subject } } });
 
-    try {
-      await sendOTPEmail(user.email, otp, user.username);
-      res.json({ message: 'New OTP sent to your email. Valid for 5 minutes.' });
-    } catch (emailError) {
-      console.error('Email sending failed:', emailError);
-      
-      // Clear the OTP if email sending failed
-      user.resetOTP = undefined;
-      user.resetOTPExpiry = undefined;
+    if (!user) {
+      // Without a verified email we can't tell whose account this is
+      if (!claims.email || !claims.emailVerified) {
+        res.status(400).json({
+          message: `Your ${provider} account has no verified email. Sign in another way and link ${provider} from your profile.`
+        });
+        return;
+      }
+
+      const identity = { provider, subject: claims.subject, email: claims.email, linkedAt: new Date() };
+
+      user = await User.findOne({ email: claims.email });
+      if (user) {
+        // Anyone can sign up with an email they don't own, so only an account that has proved
+        // it owns the address is linked; otherwise its password and sessions would stay with
+        // whoever registered it
+        if (!user.isEmailVerified) {
+          res.status(409).json({
+            message: `An account with this email exists but its email is not verified. Sign in to it and link ${provider} from your profile.`
+          });
+          return;
+        }
+        user.identities.push(identity);
+      } else {
+        user = new User({
+          username: await generateUniqueUsername(claims.name || claims.email.split('@')[0]),
+          email: claims.email,
+          // Never usable as-is; the user can set one through password reset
+          password: crypto.randomBytes(32).toString('hex'),
+          role: 'customer',
+          isEmailVerified: true,
+          identities: [identity]
+        });
+      }
       await user.save();
-      
-      res.status(500).json({ 
-        message: 'Failed to send OTP email. Please try again later.' 
+    }
+
+    const suspension = getActiveSuspension(user);
+    if (suspension) {
+      res.status(403).json(suspendedResponse(suspension));
+      return;
+    }
+
+    if (user.twoFactorEnabled) {
+      res.json({
+        message: 'Two-factor authentication required',
+        twoFactorRequired: true,
+        challengeToken: generateTwoFactorChallengeToken(user._id.toString())
       });
+      return;
     }
+
+    await sendLoginSuccess(user, req, res);
   } catch (error) {
-    console.error('Resend OTP error:', error);
+    console.error('OIDC login error:', error);
     next(error);
   }
 };
 
-export const verifyOTP = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+export const refreshToken = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { email, otp } = req.body;
+    const { refreshToken } = req.body;
 
-    if (!email?.trim() || !otp?.trim()) {
-      res.status(400).json({ message: 'Email and OTP are required' });
+    if (!refreshToken) {
+      res.status(400).json({ message: 'Refresh token is required' });
       return;
     }
 
-    const user = await User.findOne({ email });
-    if (!user) {
-      res.status(404).json({ message: 'No account found with this email address' });
+    let decoded;
+    try {
+      decoded = verifyRefreshToken(refreshToken);
+    } catch (tokenError) {
+      res.status(401).json({ message: 'Invalid refresh token' });
+      return;
+    }
+
+    const session = decoded.sessionId ? await Session.findById(decoded.sessionId) : null;
+    if (!session || session.revokedAt || session.userId.toString() !== decoded.userId) {
+      res.status(401).json({ message: 'Invalid refresh token' });
       return;
     }
 
-    if (!user.resetOTP || !user.resetOTPExpiry) {
-      res.status(400).json({ message: 'No OTP request found. Please request a new OTP.' });
+    // A validly signed token that is no longer the session's current one has
+    // already been rotated, so someone is replaying it. Kill the whole family.
+    if (session.refreshTokenHash !== hashToken(refreshToken)) {
+      await revokeSession(session, 'Refresh token reuse detected');
+      res.status(401).json({ message: 'Refresh token reuse detected. Please log in again.' });
       return;
     }
 
-    if (new Date() > user.resetOTPExpiry) {
-      // Clear expired OTP
-      user.resetOTP = undefined;
-      user.resetOTPExpiry = undefined;
-      await user.save();
-      
-      res.status(400).json({ message: 'OTP has expired. Please request a new one.' });
+    const user = await User.findById(decoded.userId);
+    if (!user) {
+      res.status(401).json({ message: 'Invalid refresh token' });
       return;
     }
 
-    if (user.resetOTP !== otp) {
-      res.status(400).json({ message: 'Invalid OTP. Please check your code and try again.' });
+    const suspension = getActiveSuspension(user);
+    if (suspension) {
+      res.status(403).json(suspendedResponse(suspension));
       return;
     }
 
-    // OTP is valid, but don't reset anything yet
-    res.json({ 
-      message: 'OTP verified successfully',
-      verified: true 
+    const tokens = await rotateSession(session, user, req, refreshToken);
+    if (!tokens) {
+      // Another request rotated this token first
+      await Session.updateOne(
+        { _id: session._id, revokedAt: { $exists: false } },
+        { revokedAt: new Date(), revokedReason: 'Refresh token reuse detected' }
+      );
+      res.status(401).json({ message: 'Refresh token reuse detected. Please log in again.' });
+      return;
+    }
+
+    res.json({
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
     });
   } catch (error) {
-    console.error('OTP verification error:', error);
     next(error);
   }
 };
 
-export const updateUserAdminStatus = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+export const logout = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { userId } = req.params;
-    const { isAdmin } = req.body;
-
-    if (typeof isAdmin !== 'boolean') {
-      res.status(400).json({ message: 'isAdmin must be a boolean' });
-      return;
+    const session = await Session.findById(req.user!.sessionId);
+    if (session) {
+      await revokeSession(session, 'Logged out');
     }
 
-    const user = await User.findByIdAndUpdate(
-      userId,
-      { isAdmin },
-      { new: true }
-    );
-
-    if (!user) {
-      res.status(404).json({ message: 'User not found' });
-      return;
-    }
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    res.json({
-      message: 'User admin status updated successfully',
-      user: {
-        id: user._id,
-        username: user.username,
-        email: user.email,
-        isAdmin: user.isAdmin
-      }
-    });
+export const logoutAll = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    await revokeAllSessions(req.user!.userId, 'Logged out everywhere');
+    res.json({ message: 'Logged out from all devices successfully' });
   } catch (error) {
     next(error);
   }
 };
 
-export const getAllUsers = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+export const getSessions = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const users = await User.find({}, { password: 0, refreshToken: 0, resetOTP: 0, resetOTPExpiry: 0 });
-    
+    const sessions = await Session.find({
+      userId: req.user!.userId,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() }
+    }).sort({ lastUsedAt: -1 });
+
     res.json({
-      users: users.map(user => ({
-        id: user._id,
-        username: user.username,
-        email: user.email,
-        isAdmin: user.isAdmin,
-        createdAt: user.createdAt,
-        updatedAt: user.updatedAt
+      sessions: sessions.map(session => ({
+        id: session._id,
+        userAgent: session.userAgent,
+        ip: session.ip,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        current: session._id.toString() === req.user!.sessionId
       }))
     });
   } catch (error) {
     next(error);
   }
-};
\ No newline at end of file
+};
+
+export const revokeUserSession = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { sessionId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+      res.status(400).json({ message: 'Invalid session ID' });
+      return;
+    }
+
+    const session = await Session.findOne({ _id: sessionId, userId: req.user!.userId });
+    if (!session) {
+      res.status(404).json({ message: 'Session not found' });
+      return;
+    }
+
+    await revokeSession(session, 'Revoked by user');
+    res.json({ message: 'Session revoked successfully' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Email Verification Functions
+export const verifyEmail = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { email, otp } = req.body;
+
+    if (!email?.trim() || !otp?.trim()) {
+      res.status(400).json({ message: 'Email and verification code are required' });
+      return;
+    }
+
+    const retryAfter = Math.max(await checkThrottle(otpKey(email)), await checkThrottle(ipKey(req.ip)));
+    if (retryAfter > 0) {
+      sendTooManyAttempts(res, retryAfter, 'Too many incorrect codes. Please try again later.');
+      return;
+    }
+
+    const user = await User.findOne({ email });
+    if (!user) {
+      res.status(404).json({ message: 'No account found with this email address' });
+      return;
+    }
+
+    if (user.isEmailVerified) {
+      res.json({ message: 'Email is already verified', verified: true });
+      return;
+    }
+
+    const result = await verifyOTPCode(user._id.toString(), 'EMAIL_VERIFICATION', otp);
+    if (result !== 'VALID') {
+      if (result === 'INVALID' || result === 'TOO_MANY_ATTEMPTS') {
+        await recordFailure(otpKey(email), THROTTLE_POLICIES.otp);
+        await recordFailure(ipKey(req.ip), THROTTLE_POLICIES.ip);
+      }
+      res.status(400).json({ message: OTP_ERROR_MESSAGES[result] });
+      return;
+    }
+
+    user.isEmailVerified = true;
+    await user.save();
+
+    res.json({ message: 'Email verified successfully', verified: true });
+  } catch (error) {
+    console.error('Email verification error:', error);
+    next(error);
+  }
+};
+
+export const resendVerificationEmail = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    if (!email?.trim()) {
+      res.status(400).json({ message: 'Email is required' });
+      return;
+    }
+
+    const user = await User.findOne({ email });
+    if (!user) {
+      res.status(404).json({ message: 'No account found with this email address' });
+      return;
+    }
+
+    if (user.isEmailVerified) {
+      res.status(400).json({ message: 'Email is already verified' });
+      return;
+    }
+
+    const cooldown = await getOTPCooldown(user._id.toString(), 'EMAIL_VERIFICATION');
+    if (cooldown > 0) {
+      sendTooManyAttempts(res, cooldown, `Please wait ${cooldown} seconds before requesting a new code.`);
+      return;
+    }
+
+    const otp = await issueOTP(user._id.toString(), 'EMAIL_VERIFICATION', EMAIL_VERIFICATION_EXPIRY_MS);
+
+    try {
+      await sendVerificationEmail(user.email, otp, user.username);
+      res.json({ message: 'New verification code sent to your email. Valid for 30 minutes.' });
+    } catch (emailError) {
+      console.error('Email sending failed:', emailError);
+      await revokeOTPs(user._id.toString(), 'EMAIL_VERIFICATION');
+      res.status(500).json({ 
+        message: 'Failed to send verification email. Please try again later.' 
+      });
+    }
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    next(error);
+  }
+};
+
+// Profile Functions
+const toProfile = (user: IUser) => ({
+  id: user._id,
+  username: user.username,
+  email: user.email,
+  pendingEmail: user.pendingEmail,
+  role: user.role,
+  permissions: getPermissions(user.role),
+  isEmailVerified: user.isEmailVerified,
+  twoFactorEnabled: user.twoFactorEnabled,
+  linkedProviders: user.identities.map(identity => identity.provider),
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt
+});
+
+export const getProfile = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const user = await User.findById(req.user!.userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    res.json({ user: toProfile(user) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Orders keep the username they were placed with; only the account changes
+export const updateUsername = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const username = req.body.username?.trim();
+
+    if (!username) {
+      res.status(400).json({ message: 'Username is required' });
+      return;
+    }
+
+    const user = await User.findById(req.user!.userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    if (username === user.username) {
+      res.json({ message: 'Username unchanged', user: toProfile(user) });
+      return;
+    }
+
+    const existingUser = await User.findOne({ username, _id: { $ne: user._id } });
+    if (existingUser) {
+      res.status(400).json({ message: 'Username is already taken' });
+      return;
+    }
+
+    // Rename the reviews in the same transaction so the old name can't be claimed with them attached
+    const previousUsername = user.username;
+    const session = await mongoose.startSession();
+    session.startTransaction();
+    try {
+      user.username = username;
+      await user.save({ session });
+      await renameReviewAuthor(previousUsername, username, session);
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+
+    res.json({ message: 'Username updated successfully', user: toProfile(user) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// The new address only replaces the current one once it has been verified
+export const requestEmailChange = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const email = req.body.email?.trim();
+    const { currentPassword } = req.body;
+
+    if (!email || !currentPassword) {
+      res.status(400).json({ message: 'New email and current password are required' });
+      return;
+    }
+
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!emailRegex.test(email)) {
+      res.status(400).json({ message: 'Invalid email format' });
+      return;
+    }
+
+    const user = await User.findById(req.user!.userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    const isMatch = await comparePassword(currentPassword, user.password);
+    if (!isMatch) {
+      res.status(401).json({ message: 'Current password is incorrect' });
+      return;
+    }
+
+    if (email === user.email) {
+      res.status(400).json({ message: 'New email must be different from the current one' });
+      return;
+    }
+
+    const existingUser = await User.findOne({ email });
+    if (existingUser) {
+      res.status(400).json({ message: 'Email is already in use' });
+      return;
+    }
+
+    const cooldown = await getOTPCooldown(user._id.toString(), 'EMAIL_CHANGE');
+    if (cooldown > 0) {
+      sendTooManyAttempts(res, cooldown, `Please wait ${cooldown} seconds before requesting a new code.`);
+      return;
+    }
+
+    user.pendingEmail = email;
+    await user.save();
+
+    const otp = await issueOTP(user._id.toString(), 'EMAIL_CHANGE', EMAIL_VERIFICATION_EXPIRY_MS);
+
+    try {
+      await sendVerificationEmail(email, otp, user.username);
+      res.json({ message: 'Verification code sent to your new email. Valid for 30 minutes.' });
+    } catch (emailError) {
+      console.error('Email sending failed:', emailError);
+      await revokeOTPs(user._id.toString(), 'EMAIL_CHANGE');
+      res.status(500).json({ 
+        message: 'Failed to send verification email. Please try again later.' 
+      });
+    }
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const confirmEmailChange = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { otp } = req.body;
+
+    if (!otp?.trim()) {
+      res.status(400).json({ message: 'Verification code is required' });
+      return;
+    }
+
+    const user = await User.findById(req.user!.userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    if (!user.pendingEmail) {
+      res.status(400).json({ message: 'No email change in progress' });
+      return;
+    }
+
+    const retryAfter = await checkThrottle(otpKey(user.pendingEmail));
+    if (retryAfter > 0) {
+      sendTooManyAttempts(res, retryAfter, 'Too many incorrect codes. Please try again later.');
+      return;
+    }
+
+    const result = await verifyOTPCode(user._id.toString(), 'EMAIL_CHANGE', otp);
+    if (result !== 'VALID') {
+      if (result === 'INVALID' || result === 'TOO_MANY_ATTEMPTS') {
+        await recordFailure(otpKey(user.pendingEmail), THROTTLE_POLICIES.otp);
+      }
+      res.status(400).json({ message: OTP_ERROR_MESSAGES[result] });
+      return;
+    }
+
+    // Someone may have claimed the address while the code was in flight
+    const existingUser = await User.findOne({ email: user.pendingEmail });
+    if (existingUser) {
+      user.pendingEmail = undefined;
+      await user.save();
+      res.status(400).json({ message: 'Email is already in use' });
+      return;
+    }
+
+    user.email = user.pendingEmail;
+    user.pendingEmail = undefined;
+    user.isEmailVerified = true;
+    await user.save();
+
+    res.json({ message: 'Email updated successfully', user: toProfile(user) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const changePassword = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    if (!currentPassword || !newPassword?.trim()) {
+      res.status(400).json({ message: 'Current password and new password are required' });
+      return;
+    }
+
+    if (newPassword.length < 6) {
+      res.status(400).json({ message: 'Password must be at least 6 characters long' });
+      return;
+    }
+
+    const user = await User.findById(req.user!.userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    const isMatch = await comparePassword(currentPassword, user.password);
+    if (!isMatch) {
+      res.status(401).json({ message: 'Current password is incorrect' });
+      return;
+    }
+
+    user.password = newPassword; // Will be hashed by pre-save middleware
+    await user.save();
+
+    // Keep this device signed in; every other device must log in again
+    await revokeAllSessions(user._id.toString(), 'Password changed', req.user!.sessionId);
+
+    res.json({ message: 'Password changed successfully' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Password Reset Functions
+
+// Issue a password reset code, shared by requestPasswordReset and resendOTP
+const sendPasswordResetOTP = async (user: IUser, res: Response, successMessage: string): Promise<void> => {
+  const cooldown = await getOTPCooldown(user._id.toString(), 'PASSWORD_RESET');
+  if (cooldown > 0) {
+    sendTooManyAttempts(res, cooldown, `Please wait ${cooldown} seconds before requesting a new code.`);
+    return;
+  }
+
+  const otp = await issueOTP(user._id.toString(), 'PASSWORD_RESET', PASSWORD_RESET_OTP_EXPIRY_MS);
+
+  try {
+    await sendOTPEmail(user.email, otp, user.username);
+    
+    res.json({ 
+      message: successMessage,
+      email: user.email,
+      success: true
+    });
+  } catch (emailError) {
+    console.error('Email sending failed:', emailError);
+    
+    // Clear the OTP if email sending failed
+    await revokeOTPs(user._id.toString(), 'PASSWORD_RESET');
+    
+    res.status(500).json({ 
+      message: 'Failed to send OTP email. Please try again later.' 
+    });
+  }
+};
+
+export const requestPasswordReset = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    if (!email?.trim()) {
+      res.status(400).json({ message: 'Email is required' });
+      return;
+    }
+
+    // Email validation
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!emailRegex.test(email)) {
+      res.status(400).json({ message: 'Invalid email format' });
+      return;
+    }
+
+    const user = await User.findOne({ email });
+    if (!user) {
+      // Return an error for non-existent email instead of generic success
+      res.status(404).json({ 
+        message: 'No account found with this email address. Please check your email or sign up for a new account.' 
+      });
+      return;
+    }
+
+    await sendPasswordResetOTP(user, res, 'OTP sent to your email. Valid for 5 minutes.');
+  } catch (error) {
+    console.error('Password reset request error:', error);
+    next(error);
+  }
+};
+
+// Accepts either the reset token handed out by verifyOTP or, for single-step
+// clients, the OTP itself
+export const verifyOTPAndResetPassword = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { email, otp, resetToken, newPassword } = req.body;
+
+    if (!email?.trim() || !(otp?.trim() || resetToken?.trim()) || !newPassword?.trim()) {
+      res.status(400).json({ message: 'Email, OTP or reset token, and new password are required' });
+      return;
+    }
+
+    if (newPassword.length < 6) {
+      res.status(400).json({ message: 'Password must be at least 6 characters long' });
+      return;
+    }
+
+    const retryAfter = Math.max(await checkThrottle(otpKey(email)), await checkThrottle(ipKey(req.ip)));
+    if (retryAfter > 0) {
+      sendTooManyAttempts(res, retryAfter, 'Too many incorrect codes. Please try again later.');
+      return;
+    }
+
+    const user = await User.findOne({ email });
+    if (!user) {
+      res.status(404).json({ message: 'No account found with this email address' });
+      return;
+    }
+
+    if (resetToken) {
+      const isValidToken = !!user.resetTokenHash
+        && !!user.resetTokenExpiry
+        && new Date() <= user.resetTokenExpiry
+        && user.resetTokenHash === hashToken(resetToken);
+
+      if (!isValidToken) {
+        await recordFailure(otpKey(email), THROTTLE_POLICIES.otp);
+        await recordFailure(ipKey(req.ip), THROTTLE_POLICIES.ip);
+        res.status(400).json({ message: 'Invalid or expired reset token. Please request a new OTP.' });
+        return;
+      }
+    } else {
+      const result = await verifyOTPCode(user._id.toString(), 'PASSWORD_RESET', otp);
+      if (result !== 'VALID') {
+        if (result === 'INVALID' || result === 'TOO_MANY_ATTEMPTS') {
+          await recordFailure(otpKey(email), THROTTLE_POLICIES.otp);
+          await recordFailure(ipKey(req.ip), THROTTLE_POLICIES.ip);
+        }
+        res.status(400).json({ message: OTP_ERROR_MESSAGES[result] });
+        return;
+      }
+    }
+
+    await clearThrottle(otpKey(email));
+
+    // Reset password
+    user.password = newPassword; // Will be hashed by pre-save middleware
+    user.resetTokenHash = undefined;
+    user.resetTokenExpiry = undefined;
+    await user.save();
+    await revokeOTPs(user._id.toString(), 'PASSWORD_RESET');
+    await revokeAllSessions(user._id.toString(), 'Password reset'); // Invalidate existing sessions
+
+    res.json({ message: 'Password reset successfully. Please login with your new password.' });
+  } catch (error) {
+    console.error('Password reset error:', error);
+    next(error);
+  }
+};
+
+export const resendOTP = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    if (!email?.trim()) {
+      res.status(400).json({ message: 'Email is required' });
+      return;
+    }
+
+    const user = await User.findOne({ email });
+    if (!user) {
+      res.status(404).json({ message: 'No account found with this email address' });
+      return;
+    }
+
+    await sendPasswordResetOTP(user, res, 'New OTP sent to your email. Valid for 5 minutes.');
+  } catch (error) {
+    console.error('Resend OTP error:', error);
+    next(error);
+  }
+};
+
+export const verifyOTP = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { email, otp } = req.body;
+
+    if (!email?.trim() || !otp?.trim()) {
+      res.status(400).json({ message: 'Email and OTP are required' });
+      return;
+    }
+
+    const retryAfter = Math.max(await checkThrottle(otpKey(email)), await checkThrottle(ipKey(req.ip)));
+    if (retryAfter > 0) {
+      sendTooManyAttempts(res, retryAfter, 'Too many incorrect codes. Please try again later.');
+      return;
+    }
+
+    const user = await User.findOne({ email });
+    if (!user) {
+      res.status(404).json({ message: 'No account found with this email address' });
+      return;
+    }
+
+    const result = await verifyOTPCode(user._id.toString(), 'PASSWORD_RESET', otp);
+    if (result !== 'VALID') {
+      if (result === 'INVALID' || result === 'TOO_MANY_ATTEMPTS') {
+        await recordFailure(otpKey(email), THROTTLE_POLICIES.otp);
+        await recordFailure(ipKey(req.ip), THROTTLE_POLICIES.ip);
+      }
+      res.status(400).json({ message: OTP_ERROR_MESSAGES[result] });
+      return;
+    }
+
+    // The OTP is used up; hand out a short-lived token for the actual reset
+    const resetToken = crypto.randomBytes(32).toString('hex');
+    user.resetTokenHash = hashToken(resetToken);
+    user.resetTokenExpiry = new Date(Date.now() + RESET_TOKEN_EXPIRY_MS);
+    await user.save();
+
+    res.json({ 
+      message: 'OTP verified successfully',
+      verified: true,
+      resetToken,
+      expiresIn: RESET_TOKEN_EXPIRY_MS / 1000
+    });
+  } catch (error) {
+    console.error('OTP verification error:', error);
+    next(error);
+  }
+};
+
+export const updateUserRole = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { userId } = req.params;
+    const { role } = req.body;
+
+    if (!isValidRole(role)) {
+      res.status(400).json({ message: `role must be one of: ${ROLES.join(', ')}` });
+      return;
+    }
+
+    // Stop admins from accidentally locking themselves out of user management
+    if (userId === req.user!.userId) {
+      res.status(400).json({ message: 'You cannot change your own role' });
+      return;
+    }
+
+    const user = await User.findByIdAndUpdate(
+      userId,
+      { role },
+      { new: true, runValidators: true }
+    );
+
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    res.json({
+      message: 'User role updated successfully',
+      user: {
+        id: user._id,
+        username: user.username,
+        email: user.email,
+        role: user.role,
+        permissions: getPermissions(user.role)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateUserEmailVerification = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { userId } = req.params;
+    const { isEmailVerified } = req.body;
+
+    if (typeof isEmailVerified !== 'boolean') {
+      res.status(400).json({ message: 'isEmailVerified must be a boolean' });
+      return;
+    }
+
+    const user = await User.findByIdAndUpdate(
+      userId,
+      { isEmailVerified },
+      { new: true }
+    );
+
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    if (isEmailVerified) {
+      await revokeOTPs(user._id.toString(), 'EMAIL_VERIFICATION');
+    }
+
+    res.json({
+      message: 'User email verification status updated successfully',
+      user: {
+        id: user._id,
+        username: user.username,
+        email: user.email,
+        role: user.role,
+        isEmailVerified: user.isEmailVerified
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const unlockUserAccount = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { userId } = req.params;
+
+    const user = await User.findById(userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    await clearThrottle(accountKey(user._id.toString()));
+    await clearThrottle(otpKey(user.email));
+
+    res.json({ message: 'User account unlocked successfully' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+const USERS_MAX_PAGE_SIZE = 100;
+const OPEN_ORDER_STATUSES = ['PENDING', 'CONFIRMED'];
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const getAllUsers = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, USERS_MAX_PAGE_SIZE);
+    const { search, role, status, signedUpFrom, signedUpTo, minOrders, maxOrders } = req.query;
+
+    const match: Record<string, any> = {};
+
+    if (search) {
+      const pattern = new RegExp(escapeRegex(String(search)), 'i');
+      match.$or = [{ username: pattern }, { email: pattern }];
+    }
+
+    if (role) {
+      if (!isValidRole(role)) {
+        res.status(400).json({ message: `role must be one of: ${ROLES.join(', ')}` });
+        return;
+      }
+      match.role = role;
+    }
+
+    if (signedUpFrom || signedUpTo) {
+      const from = signedUpFrom ? new Date(signedUpFrom as string) : undefined;
+      const to = signedUpTo ? new Date(signedUpTo as string) : undefined;
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        res.status(400).json({ message: 'signedUpFrom and signedUpTo must be valid dates' });
+        return;
+      }
+      match.createdAt = { ...(from && { $gte: from }), ...(to && { $lte: to }) };
+    }
+
+    if (status) {
+      const now = new Date();
+      // A suspension past its expiry no longer counts
+      if (status === 'active') {
+        match.$and = [{
+          $or: [{ suspension: { $exists: false } }, { suspension: null }, { 'suspension.expiresAt': { $lte: now } }]
+        }];
+      } else if (status === 'suspended' || status === 'banned') {
+        match['suspension.type'] = status.toUpperCase();
+        match.$and = [{
+          $or: [{ 'suspension.expiresAt': { $exists: false } }, { 'suspension.expiresAt': null }, { 'suspension.expiresAt': { $gt: now } }]
+        }];
+      } else {
+        res.status(400).json({ message: 'status must be one of: active, suspended, banned' });
+        return;
+      }
+    }
+
+    const orderCountFilter: Record<string, number> = {};
+    if (minOrders !== undefined) orderCountFilter.$gte = parseInt(minOrders as string) || 0;
+    if (maxOrders !== undefined) orderCountFilter.$lte = parseInt(maxOrders as string) || 0;
+
+    const [result] = await User.aggregate([
+      { $match: match },
+      {
+        $lookup: {
+          from: Order.collection.name,
+          let: { userId: { $toString: '$_id' } },
+          pipeline: [
+            { $match: { $expr: { $eq: ['$userInfo.userId', '$$userId'] } } },
+            { $count: 'count' }
+          ],
+          as: 'orderStats'
+        }
+      },
+      { $addFields: { orderCount: { $ifNull: [{ $arrayElemAt: ['$orderStats.count', 0] }, 0] } } },
+      ...(Object.keys(orderCountFilter).length ? [{ $match: { orderCount: orderCountFilter } }] : []),
+      { $sort: { createdAt: -1 } },
+      {
+        $facet: {
+          users: [
+            { $skip: (page - 1) * limit },
+            { $limit: limit },
+            {
+              $project: {
+                username: 1,
+                email: 1,
+                role: 1,
+                isEmailVerified: 1,
+                twoFactorEnabled: 1,
+                suspension: 1,
+                orderCount: 1,
+                createdAt: 1,
+                updatedAt: 1
+              }
+            }
+          ],
+          total: [{ $count: 'count' }]
+        }
+      }
+    ]);
+
+    const total = result.total[0]?.count || 0;
+
+    res.json({
+      users: result.users.map((user: any) => ({
+        id: user._id,
+        username: user.username,
+        email: user.email,
+        role: user.role,
+        isEmailVerified: user.isEmailVerified,
+        twoFactorEnabled: user.twoFactorEnabled,
+        suspension: getActiveSuspension(user),
+        orderCount: user.orderCount,
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt
+      })),
+      total,
+      page,
+      pages: Math.ceil(total / limit)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const suspendUser = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { userId } = req.params;
+    const { type = 'SUSPENDED', reason, expiresAt } = req.body;
+
+    if (type !== 'SUSPENDED' && type !== 'BANNED') {
+      res.status(400).json({ message: 'type must be SUSPENDED or BANNED' });
+      return;
+    }
+
+    if (!reason || typeof reason !== 'string' || !reason.trim()) {
+      res.status(400).json({ message: 'A reason is required' });
+      return;
+    }
+
+    let expiry: Date | undefined;
+    if (expiresAt) {
+      expiry = new Date(expiresAt);
+      if (isNaN(expiry.getTime()) || expiry.getTime() <= Date.now()) {
+        res.status(400).json({ message: 'expiresAt must be a date in the future' });
+        return;
+      }
+    }
+
+    if (userId === req.user!.userId) {
+      res.status(400).json({ message: 'You cannot suspend your own account' });
+      return;
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    const label = type === 'BANNED' ? 'banned' : 'suspended';
+
+    user.suspension = {
+      type,
+      reason: reason.trim(),
+      expiresAt: expiry,
+      suspendedBy: req.user!.userId,
+      suspendedAt: new Date()
+    };
+    await user.save();
+
+    // authenticate already rejects them, but revoking also ends any pending refreshes
+    await revokeAllSessions(user._id.toString(), `Account ${label}`);
+
+    const flagged = await Order.updateMany(
+      { 'userInfo.userId': user._id.toString(), orderStatus: { $in: OPEN_ORDER_STATUSES } },
+      { reviewFlag: { reason: `Customer ${label}: ${reason.trim()}`, flaggedAt: new Date() } }
+    );
+
+    res.json({
+      message: `User ${label} successfully`,
+      suspension: user.suspension,
+      ordersFlaggedForReview: flagged.modifiedCount
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const reinstateUser = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { userId } = req.params;
+
+    const user = await User.findById(userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    if (!user.suspension) {
+      res.status(400).json({ message: 'User is not suspended' });
+      return;
+    }
+
+    user.suspension = undefined;
+    await user.save();
+
+    res.json({ message: 'User reinstated successfully' });
+  } catch (error) {
+    next(error);
+  }
+};
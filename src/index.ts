@@ -8,6 +8,10 @@ import productRouter from "./router/Product";
 import orderRouter from "./router/Order";
 import cartRouter from "./router/Cart";
 import dashboardRouter from "./router/Dashboard";
+import auditRouter from "./router/Audit";
+import { migrateLegacyAdminFlags } from "./model/User";
+import { backfillCategoryNames, backfillProductIdentifiers, backfillProductStatus } from "./model/Product";
+import { backfillCategoryIdentifiers } from "./model/Category";
 
 dotenv.config();
 
@@ -34,11 +38,17 @@ app.use('/api/products', productRouter);
 app.use('/api/order', orderRouter);
 app.use('/api/cart', cartRouter);
 app.use('/api/dashboard', dashboardRouter);
+app.use('/api/audit-logs', auditRouter);
 
 mongoose
   .connect(mongodb)
-  .then(() => {
+  .then(async () => {
     console.log("Connected to mongodb");
+    await migrateLegacyAdminFlags();
+    await backfillCategoryNames();
+    await backfillProductStatus();
+    await backfillCategoryIdentifiers();
+    await backfillProductIdentifiers();
     console.log("Hello from server");
 
     // IMPORTANT FIX FOR RENDER 🚀
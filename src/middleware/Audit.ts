@@ -0,0 +1,79 @@
+import { Response, NextFunction } from 'express';
+import { Model } from 'mongoose';
+import { AuthenticatedRequest } from './User';
+import { recordAudit } from '../utils/Audit';
+
+interface AuditOptions {
+  targetType: string;
+  // Model used to snapshot the target before and after the change
+  model?: Model<any>;
+  // Defaults to the first of :id, :productId, :userId, :orderId, or the _id in the response
+  targetId?: (req: AuthenticatedRequest, responseBody: any) => string | undefined;
+  // Snapshot for targets that aren't a single document (e.g. settings)
+  snapshot?: (req: AuthenticatedRequest) => Promise<Record<string, unknown> | null>;
+}
+
+const defaultTargetId = (req: AuthenticatedRequest, responseBody: any): string | undefined => {
+  const fromParams = req.params.id || req.params.productId || req.params.userId || req.params.orderId;
+  if (fromParams) return fromParams;
+
+  // Create routes only know the new document's ID from their response
+  return responseBody?._id ? responseBody._id.toString() : undefined;
+};
+
+// Records successful admin actions with a before/after diff of the target.
+// Mount after `authenticate` and before the controller.
+export const audit = (action: string, options: AuditOptions) => async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const loadSnapshot = async (id: string | undefined) => {
+      if (options.snapshot) return options.snapshot(req);
+      if (!options.model || !id) return null;
+      return options.model.findById(id).lean<Record<string, unknown>>().catch(() => null);
+    };
+
+    const paramsTargetId = defaultTargetId(req, undefined);
+    const before = await loadSnapshot(options.targetId ? options.targetId(req, undefined) : paramsTargetId);
+
+    let responseBody: any;
+    const originalJson = res.json.bind(res);
+    res.json = (body: any) => {
+      responseBody = body;
+      return originalJson(body);
+    };
+
+    res.on('finish', async () => {
+      if (res.statusCode >= 400 || !req.user) return;
+
+      try {
+        const targetId = options.targetId
+          ? options.targetId(req, responseBody)
+          : defaultTargetId(req, responseBody);
+        const after = await loadSnapshot(targetId);
+
+        await recordAudit({
+          actor: {
+            userId: req.user.userId,
+            username: req.user.username,
+            role: req.user.role
+          },
+          action,
+          target: { type: options.targetType, id: targetId },
+          before,
+          after,
+          ip: req.ip,
+          userAgent: req.get('user-agent')
+        });
+      } catch (error) {
+        console.error(`Failed to write audit log for ${action}:`, error);
+      }
+    });
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,12 +1,19 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyAccessToken } from '../utils/Jwt';
 import User from '../model/User';
+import Session from '../model/Session';
+import { Permission, Role, hasPermission, isStaffRole } from '../config/Roles';
+import { getSecuritySettings } from '../utils/Settings';
+import { getActiveSuspension, suspendedResponse } from '../utils/Suspension';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
     userId: string;
     username: string;
-    isAdmin: boolean;  // Add this
+    role: Role;
+    isEmailVerified: boolean;
+    twoFactorEnabled: boolean;
+    sessionId: string;
   };
 }
 
@@ -23,7 +30,21 @@ export const authenticate = async (
     }
 
     const token = authHeader.split(' ')[1];
-    const decoded = verifyAccessToken(token);
+
+    let decoded;
+    try {
+      decoded = verifyAccessToken(token);
+    } catch (tokenError) {
+      res.status(401).json({ message: 'Invalid or expired token' });
+      return;
+    }
+
+    // Access tokens are short-lived, but a logout must take effect immediately
+    const session = decoded.sessionId ? await Session.findById(decoded.sessionId) : null;
+    if (!session || session.revokedAt || session.userId.toString() !== decoded.userId) {
+      res.status(401).json({ message: 'Session has been revoked' });
+      return;
+    }
 
     const user = await User.findById(decoded.userId);
     if (!user) {
@@ -31,10 +52,19 @@ export const authenticate = async (
       return;
     }
 
+    const suspension = getActiveSuspension(user);
+    if (suspension) {
+      res.status(403).json(suspendedResponse(suspension));
+      return;
+    }
+
     req.user = {
       userId: decoded.userId,
-      username: decoded.username,
-      isAdmin: decoded.isAdmin  // Add this
+      username: user.username,
+      role: user.role, // Read from the database so demoted staff lose access immediately
+      isEmailVerified: user.isEmailVerified,
+      twoFactorEnabled: user.twoFactorEnabled,
+      sessionId: decoded.sessionId!
     };
     next();
   } catch (error) {
@@ -42,14 +72,73 @@ export const authenticate = async (
   }
 };
 
-// Add admin middleware
-export const isAdmin = (
+// Staff without 2FA can still sign in and enroll, but not use their permissions.
+// Sends the 403 and returns true when the request has to stop here.
+export const rejectStaffWithoutTwoFactor = async (req: AuthenticatedRequest, res: Response): Promise<boolean> => {
+  if (!req.user || !isStaffRole(req.user.role) || req.user.twoFactorEnabled) return false;
+
+  const { requireTwoFactorForStaff } = await getSecuritySettings();
+  if (!requireTwoFactorForStaff) return false;
+
+  res.status(403).json({
+    message: 'Two-factor authentication must be enabled for staff accounts',
+    twoFactorSetupRequired: true
+  });
+  return true;
+};
+
+export const requirePermission = (permission: Permission) => async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user || !hasPermission(req.user.role, permission)) {
+      res.status(403).json({ message: `Permission required: ${permission}` });
+      return;
+    }
+
+    if (await rejectStaffWithoutTwoFactor(req, res)) return;
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Only allow access to routes with a :userId param for that user (or staff holding the permission)
+export const requireSelfOrPermission = (permission: Permission) => async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication invalid' });
+      return;
+    }
+
+    if (req.params.userId !== req.user.userId) {
+      if (!hasPermission(req.user.role, permission)) {
+        res.status(403).json({ message: 'You can only access your own data' });
+        return;
+      }
+      if (await rejectStaffWithoutTwoFactor(req, res)) return;
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const requireVerifiedEmail = (
   req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
 ): void => {
-  if (!req.user?.isAdmin) {
-    res.status(403).json({ message: 'Admin access required' });
+  if (!req.user?.isEmailVerified) {
+    res.status(403).json({ message: 'Please verify your email address before continuing' });
     return;
   }
   next();
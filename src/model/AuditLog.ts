@@ -0,0 +1,66 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IAuditLog extends Document {
+  _id: mongoose.Types.ObjectId;
+  actor: {
+    userId: string;
+    username: string;
+    role: string;
+  };
+  action: string; // e.g. "product.update", "user.role.update"
+  target: {
+    type: string;
+    id?: string;
+  };
+  changes: {
+    before?: Record<string, unknown>;
+    after?: Record<string, unknown>;
+  };
+  ip?: string;
+  userAgent?: string;
+  createdAt: Date;
+}
+
+const AuditLogSchema: Schema = new Schema(
+  {
+    actor: {
+      userId: { type: String, required: true },
+      username: { type: String, required: true },
+      role: { type: String, required: true }
+    },
+    action: { type: String, required: true, trim: true },
+    target: {
+      type: { type: String, required: true },
+      id: { type: String }
+    },
+    changes: {
+      before: { type: Schema.Types.Mixed },
+      after: { type: Schema.Types.Mixed }
+    },
+    ip: { type: String },
+    userAgent: { type: String },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+AuditLogSchema.index({ createdAt: -1 });
+AuditLogSchema.index({ 'actor.userId': 1, createdAt: -1 });
+AuditLogSchema.index({ 'target.type': 1, 'target.id': 1, createdAt: -1 });
+AuditLogSchema.index({ action: 1, createdAt: -1 });
+
+// The log is append-only: entries can be created and read, never changed or removed
+const rejectMutation = function (next: (err?: Error) => void) {
+  next(new Error('Audit log entries cannot be modified or deleted'));
+};
+AuditLogSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  rejectMutation
+);
+AuditLogSchema.pre('save', function (next) {
+  if (!this.isNew) {
+    return next(new Error('Audit log entries cannot be modified or deleted'));
+  }
+  next();
+});
+
+export default mongoose.model<IAuditLog>('AuditLog', AuditLogSchema);
@@ -2,6 +2,8 @@ import mongoose, { Document, Schema } from 'mongoose';
 
 export interface ICartItem {
   product: mongoose.Types.ObjectId;
+  variant?: mongoose.Types.ObjectId;
+  variantLabel?: string; // e.g. "M / Red"
   quantity: number;
   price: number;
   name: string;
@@ -23,6 +25,13 @@ const CartItemSchema: Schema = new Schema({
     ref: 'Product',
     required: true
   },
+  variant: {
+    type: Schema.Types.ObjectId
+  },
+  variantLabel: {
+    type: String,
+    trim: true
+  },
   quantity: {
     type: Number,
     required: true,
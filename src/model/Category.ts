@@ -1,7 +1,11 @@
 import mongoose, {Document, Schema } from 'mongoose';
+import { generateUniqueSku, generateUniqueSlug } from '../utils/Identifiers';
 
 export interface ICategory extends Document {
     name: string;
+    slug: string;
+    previousSlugs: string[];
+    sku: string;
     description?: string;
     image?: string;
     createdAt: Date;
@@ -15,6 +19,18 @@ const CategorySchema: Schema = new Schema({
         unique: true,
         trim:true
     },
+    slug:{
+        type: String,
+        trim: true
+    },
+    previousSlugs:{
+        type: [String],
+        default: []
+    },
+    sku:{
+        type: String,
+        trim: true
+    },
     description:{
         type:String,
         trim:true
@@ -24,4 +40,34 @@ const CategorySchema: Schema = new Schema({
     }
 },{timestamps: true});
 
-export default mongoose.model<ICategory>('Category', CategorySchema);
\ No newline at end of file
+CategorySchema.index({ slug: 1 }, { unique: true, partialFilterExpression: { slug: { $type: 'string' } } });
+CategorySchema.index({ previousSlugs: 1 });
+CategorySchema.index({ sku: 1 }, { unique: true, partialFilterExpression: { sku: { $type: 'string' } } });
+
+// Set once from the name; renames keep the slug so existing links still work
+CategorySchema.pre<ICategory>('save', async function(next) {
+    const model = this.constructor as mongoose.Model<ICategory>;
+    if (!this.slug) this.slug = await generateUniqueSlug(model, this.name, this._id);
+    if (!this.sku) this.sku = await generateUniqueSku(model, 'CAT');
+    next();
+});
+
+const Category = mongoose.model<ICategory>('Category', CategorySchema);
+
+// Give categories created before slugs and SKUs existed their identifiers
+export const backfillCategoryIdentifiers = async (): Promise<void> => {
+    const categories = await Category.find(
+        { $or: [{ slug: { $exists: false } }, { sku: { $exists: false } }] },
+        { name: 1, slug: 1, sku: 1 }
+    );
+    for (const category of categories) {
+        await Category.collection.updateOne({ _id: category._id as mongoose.Types.ObjectId }, {
+            $set: {
+                slug: category.slug || await generateUniqueSlug(Category, category.name, category._id),
+                sku: category.sku || await generateUniqueSku(Category, 'CAT')
+            }
+        });
+    }
+};
+
+export default Category;
@@ -0,0 +1,62 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const INVENTORY_REASONS = ['SALE', 'RESTOCK', 'RETURN', 'CORRECTION', 'DAMAGE'] as const;
+
+export type InventoryReason = typeof INVENTORY_REASONS[number];
+
+// One stock movement of a product, or of one of its variants
+export interface IInventoryMovement extends Document {
+  _id: mongoose.Types.ObjectId;
+  product: mongoose.Types.ObjectId;
+  variant?: mongoose.Types.ObjectId;
+  sku?: string;
+  delta: number; // negative when stock went out
+  stockAfter: number;
+  reason: InventoryReason;
+  actor?: {
+    userId: string;
+    username: string;
+  };
+  order?: mongoose.Types.ObjectId;
+  note?: string;
+  createdAt: Date;
+}
+
+const InventoryMovementSchema: Schema = new Schema(
+  {
+    product: { type: Schema.Types.ObjectId, ref: 'Product', required: true },
+    variant: { type: Schema.Types.ObjectId },
+    sku: { type: String },
+    delta: { type: Number, required: true },
+    stockAfter: { type: Number, required: true },
+    reason: { type: String, enum: INVENTORY_REASONS, required: true },
+    actor: {
+      userId: { type: String },
+      username: { type: String }
+    },
+    order: { type: Schema.Types.ObjectId, ref: 'Order' },
+    note: { type: String, trim: true, maxlength: 500 }
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+InventoryMovementSchema.index({ product: 1, createdAt: -1 });
+InventoryMovementSchema.index({ order: 1 });
+InventoryMovementSchema.index({ reason: 1, createdAt: -1 });
+
+// Like the audit log, the ledger is append-only; corrections are new movements
+const rejectMutation = function (next: (err?: Error) => void) {
+  next(new Error('Inventory movements cannot be modified or deleted'));
+};
+InventoryMovementSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  rejectMutation
+);
+InventoryMovementSchema.pre('save', function (next) {
+  if (!this.isNew) {
+    return next(new Error('Inventory movements cannot be modified or deleted'));
+  }
+  next();
+});
+
+export default mongoose.model<IInventoryMovement>('InventoryMovement', InventoryMovementSchema);
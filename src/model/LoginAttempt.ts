@@ -0,0 +1,29 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ILoginAttempt extends Document {
+  key: string; // e.g. "account:<userId>", "ip:<address>", "otp:<email>"
+  failures: number;
+  blockedUntil?: Date;
+  locked: boolean;
+  lastFailureAt: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LoginAttemptSchema: Schema = new Schema(
+  {
+    key: { type: String, required: true, unique: true },
+    failures: { type: Number, default: 0, min: 0 },
+    blockedUntil: { type: Date },
+    locked: { type: Boolean, default: false },
+    lastFailureAt: { type: Date, default: Date.now },
+    expiresAt: { type: Date, required: true },
+  },
+  { timestamps: true }
+);
+
+// Failure counters are forgotten once the tracking window passes without new failures
+LoginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ILoginAttempt>('LoginAttempt', LoginAttemptSchema);
@@ -2,6 +2,9 @@ import mongoose, { Document, Schema } from 'mongoose';
 
 export interface IOrderItem {
   product: mongoose.Types.ObjectId;
+  variant?: mongoose.Types.ObjectId;
+  variantLabel?: string;
+  sku?: string;
   quantity: number;
   price: number;
 }
@@ -39,6 +42,10 @@ export interface IOrder extends Document {
   esewaSignature?: string;
   
   notes?: string;
+  reviewFlag?: {
+    reason: string;
+    flaggedAt: Date;
+  };
   createdAt: Date;
   updatedAt: Date;
 }
@@ -49,6 +56,17 @@ const OrderItemSchema: Schema = new Schema({
     ref: 'Product',
     required: true
   },
+  variant: {
+    type: Schema.Types.ObjectId
+  },
+  variantLabel: {
+    type: String,
+    trim: true
+  },
+  sku: {
+    type: String,
+    trim: true
+  },
   quantity: {
     type: Number,
     required: true,
@@ -178,6 +196,12 @@ const OrderSchema: Schema = new Schema({
   notes: {
     type: String,
     trim: true
+  },
+
+  // Set when the order needs a manual look before fulfilment (e.g. the customer was suspended)
+  reviewFlag: {
+    reason: { type: String, trim: true },
+    flaggedAt: { type: Date }
   }
 }, { 
   timestamps: true,
@@ -188,5 +212,6 @@ const OrderSchema: Schema = new Schema({
 OrderSchema.index({ 'userInfo.userId': 1, createdAt: -1 });
 OrderSchema.index({ orderStatus: 1 });
 OrderSchema.index({ paymentStatus: 1 });
+OrderSchema.index({ 'reviewFlag.flaggedAt': 1 }, { sparse: true });
 
 export default mongoose.model<IOrder>('Order', OrderSchema);
\ No newline at end of file
@@ -0,0 +1,35 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// EMAIL_CHANGE codes go to the new address and are kept apart from signup verification
+export type OTPPurpose = 'PASSWORD_RESET' | 'EMAIL_VERIFICATION' | 'EMAIL_CHANGE' | 'LOGIN';
+
+export interface IOtp extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  purpose: OTPPurpose;
+  codeHash: string;
+  attempts: number;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OtpSchema: Schema = new Schema(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    purpose: {
+      type: String,
+      enum: ['PASSWORD_RESET', 'EMAIL_VERIFICATION', 'EMAIL_CHANGE', 'LOGIN'],
+      required: true
+    },
+    codeHash: { type: String, required: true },
+    attempts: { type: Number, default: 0, min: 0 },
+    expiresAt: { type: Date, required: true },
+  },
+  { timestamps: true }
+);
+
+OtpSchema.index({ userId: 1, purpose: 1 });
+OtpSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IOtp>('Otp', OtpSchema);
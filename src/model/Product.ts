@@ -1,4 +1,6 @@
 import mongoose, { Document, Schema, Types } from 'mongoose';
+import Category from './Category';
+import { generateUniqueSku, generateUniqueSlug } from '../utils/Identifiers';
 
 export interface IComment extends Document {
   _id: mongoose.Types.ObjectId;
@@ -27,15 +29,68 @@ export interface IRating extends Document {
   updatedAt: Date;
 }
 
+// An option axis such as size or color, with the values a variant may pick
+export interface IProductOption {
+  name: string;
+  values: string[];
+}
+
+export interface IVariant {
+  _id: mongoose.Types.ObjectId;
+  sku: string;
+  options: Map<string, string>; // axis name -> value, one entry per product option
+  price: number;
+  compareAtPrice?: number;
+  salePrice?: number; // applies during the product's sale window
+  stock: number;
+  image?: string;
+}
+
+// The pricing of the product, or of one variant, as it was set at changedAt
+export interface IPriceChange {
+  variant?: mongoose.Types.ObjectId;
+  sku?: string;
+  price: number;
+  compareAtPrice?: number;
+  salePrice?: number;
+  saleStartsAt?: Date;
+  saleEndsAt?: Date;
+  changedAt: Date;
+}
+
+const PRICE_HISTORY_LIMIT = 200;
+
+export const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+
+export const PRODUCT_STATUSES = ['DRAFT', 'PUBLISHED', 'ARCHIVED'] as const;
+
+export type ProductStatus = typeof PRODUCT_STATUSES[number];
+
 export interface IProduct extends Document {
   _id: mongoose.Types.ObjectId;
+  sku: string;
+  slug: string;
+  previousSlugs: string[]; // still resolve, redirecting to the current slug
   name: string;
   price: number;
+  compareAtPrice?: number; // "was" price shown struck through
+  salePrice?: number;
+  saleStartsAt?: Date;
+  saleEndsAt?: Date;
+  priceHistory: IPriceChange[];
   description: string;
   mainImage: string;
   subImages?: string[];
   stock: number;
+  lowStockThreshold?: number; // falls back to DEFAULT_LOW_STOCK_THRESHOLD; applies to each variant
+  options: IProductOption[];
+  variants: mongoose.Types.DocumentArray<IVariant>;
   category: mongoose.Types.ObjectId;
+  categoryName?: string; // copy of the category's name so text search can cover it
+  status: ProductStatus;
+  publishAt?: Date; // a published product stays hidden until then
+  unpublishAt?: Date; // and hidden again from then on
+  archivedAt?: Date;
   ratings: IRating[];
   comments: IComment[];
   averageRating: number;
@@ -87,7 +142,95 @@ const RatingSchema: Schema = new Schema({
   }
 }, { timestamps: true });
 
+const ProductOptionSchema: Schema = new Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  values: [{
+    type: String,
+    trim: true
+  }]
+}, { _id: false });
+
+const VariantSchema: Schema = new Schema({
+  sku: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  options: {
+    type: Map,
+    of: String,
+    default: {}
+  },
+  price: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  compareAtPrice: {
+    type: Number,
+    min: 0
+  },
+  salePrice: {
+    type: Number,
+    min: 0
+  },
+  stock: {
+    type: Number,
+    required: true,
+    min: 0,
+    default: 0
+  },
+  image: {
+    type: String
+  }
+});
+
+const PriceChangeSchema: Schema = new Schema({
+  variant: {
+    type: Schema.Types.ObjectId
+  },
+  sku: {
+    type: String
+  },
+  price: {
+    type: Number,
+    required: true
+  },
+  compareAtPrice: {
+    type: Number
+  },
+  salePrice: {
+    type: Number
+  },
+  saleStartsAt: {
+    type: Date
+  },
+  saleEndsAt: {
+    type: Date
+  },
+  changedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
 const ProductSchema: Schema = new Schema({
+  sku: {
+    type: String,
+    trim: true
+  },
+  slug: {
+    type: String,
+    trim: true
+  },
+  previousSlugs: {
+    type: [String],
+    default: []
+  },
   name: {
     type: String,
     required: true,
@@ -99,6 +242,24 @@ const ProductSchema: Schema = new Schema({
     required: true,
     min: 0
   },
+  compareAtPrice: {
+    type: Number,
+    min: 0
+  },
+  salePrice: {
+    type: Number,
+    min: 0
+  },
+  saleStartsAt: {
+    type: Date
+  },
+  saleEndsAt: {
+    type: Date
+  },
+  priceHistory: {
+    type: [PriceChangeSchema],
+    default: []
+  },
   description: {
     type: String,
     required: true,
@@ -117,11 +278,41 @@ const ProductSchema: Schema = new Schema({
     min: 0,
     default: 0
   },
+  lowStockThreshold: {
+    type: Number,
+    min: 0
+  },
+  options: {
+    type: [ProductOptionSchema],
+    default: []
+  },
+  variants: {
+    type: [VariantSchema],
+    default: []
+  },
   category: {
     type: Schema.Types.ObjectId,
     ref: 'Category',
     required: true
   },
+  categoryName: {
+    type: String,
+    trim: true
+  },
+  status: {
+    type: String,
+    enum: PRODUCT_STATUSES,
+    default: 'PUBLISHED'
+  },
+  publishAt: {
+    type: Date
+  },
+  unpublishAt: {
+    type: Date
+  },
+  archivedAt: {
+    type: Date
+  },
   ratings: [RatingSchema],
   comments: [CommentSchema],
   averageRating: {
@@ -132,6 +323,100 @@ const ProductSchema: Schema = new Schema({
   }
 }, { timestamps: true });
 
+ProductSchema.index({ status: 1, publishAt: 1, unpublishAt: 1 });
+
+// Weighted full-text search; MongoDB's text index stems words using the English rules
+ProductSchema.index(
+  { name: 'text', categoryName: 'text', description: 'text' },
+  { name: 'product_text_search', weights: { name: 10, categoryName: 5, description: 1 } }
+);
+
+ProductSchema.index(
+  { sku: 1 },
+  { unique: true, partialFilterExpression: { sku: { $type: 'string' } } }
+);
+
+ProductSchema.index(
+  { slug: 1 },
+  { unique: true, partialFilterExpression: { slug: { $type: 'string' } } }
+);
+ProductSchema.index({ previousSlugs: 1 });
+
+// Unique across products only: a multikey index doesn't compare entries of the same array, and
+// product and variant SKUs are separate fields. isSkuTaken and isSkuInProduct cover the rest.
+ProductSchema.index(
+  { 'variants.sku': 1 },
+  { unique: true, partialFilterExpression: { 'variants.sku': { $exists: true } } }
+);
+
+// With variants, the product-level price and stock summarise them ("from" price,
+// total stock) so listing, sorting and filtering keep working unchanged
+ProductSchema.pre<IProduct>('save', function(next) {
+  if (this.variants && this.variants.length > 0) {
+    this.price = Math.min(...this.variants.map(variant => variant.price));
+    this.stock = this.variants.reduce((total, variant) => total + variant.stock, 0);
+    this.salePrice = this.variants.some(variant => variant.salePrice != null)
+      ? Math.min(...this.variants.map(variant => variant.salePrice ?? variant.price))
+      : undefined;
+  }
+  next();
+});
+
+const PRICE_FIELDS = ['price', 'compareAtPrice', 'salePrice'];
+const SALE_WINDOW_FIELDS = ['saleStartsAt', 'saleEndsAt'];
+
+// Log every pricing change, of the product and of each variant, newest last
+ProductSchema.pre<IProduct>('save', function(next) {
+  const now = new Date();
+  const window = { saleStartsAt: this.saleStartsAt, saleEndsAt: this.saleEndsAt };
+  const changes: IPriceChange[] = [];
+
+  if (this.isNew || [...PRICE_FIELDS, ...SALE_WINDOW_FIELDS].some(path => this.isModified(path))) {
+    changes.push({
+      price: this.price,
+      compareAtPrice: this.compareAtPrice,
+      salePrice: this.salePrice,
+      ...window,
+      changedAt: now
+    });
+  }
+
+  for (const variant of this.variants) {
+    if (variant.isNew || PRICE_FIELDS.some(path => variant.isModified(path))) {
+      changes.push({
+        variant: variant._id,
+        sku: variant.sku,
+        price: variant.price,
+        compareAtPrice: variant.compareAtPrice,
+        salePrice: variant.salePrice,
+        ...window,
+        changedAt: now
+      });
+    }
+  }
+
+  if (changes.length > 0) {
+    this.priceHistory = [...this.priceHistory, ...changes].slice(-PRICE_HISTORY_LIMIT);
+  }
+  next();
+});
+
+// Slugs are set once from the name and don't follow renames, so shared links keep working
+ProductSchema.pre<IProduct>('save', async function(next) {
+  const model = this.constructor as mongoose.Model<IProduct>;
+  if (!this.slug) this.slug = await generateUniqueSlug(model, this.name, this._id);
+  if (!this.sku) this.sku = await generateUniqueSku(model, 'PRD');
+  next();
+});
+
+ProductSchema.pre<IProduct>('save', async function(next) {
+  if (this.isModified('category') || !this.categoryName) {
+    const category = await Category.findById(this.category);
+    this.categoryName = category?.name;
+  }
+  next();
+});
+
 // Calculate average rating before saving
 ProductSchema.pre<IProduct>('save', function(next) {
   if (this.ratings && this.ratings.length > 0) {
@@ -143,4 +428,91 @@ ProductSchema.pre<IProduct>('save', function(next) {
   next();
 });
 
-export default mongoose.model<IProduct>('Product', ProductSchema);
\ No newline at end of file
+const Product = mongoose.model<IProduct>('Product', ProductSchema);
+
+// Condition for products the storefront may show. Schedules are checked at query
+// time, so nothing has to run when a publish or unpublish time passes.
+export const publishedFilter = (now: Date = new Date()) => ({
+  status: 'PUBLISHED',
+  $and: [
+    { $or: [{ publishAt: null }, { publishAt: { $lte: now } }] },
+    { $or: [{ unpublishAt: null }, { unpublishAt: { $gt: now } }] }
+  ]
+});
+
+export const isPublished = (product: IProduct, now: Date = new Date()): boolean => {
+  return product.status === 'PUBLISHED'
+    && (!product.publishAt || product.publishAt <= now)
+    && (!product.unpublishAt || product.unpublishAt > now);
+};
+
+// Give products created before slugs and SKUs existed their identifiers
+export const backfillProductIdentifiers = async (): Promise<void> => {
+  const products = await Product.find(
+    { $or: [{ slug: { $exists: false } }, { sku: { $exists: false } }] },
+    { name: 1, slug: 1, sku: 1 }
+  );
+  for (const product of products) {
+    await Product.collection.updateOne({ _id: product._id }, {
+      $set: {
+        slug: product.slug || await generateUniqueSlug(Product, product.name, product._id),
+        sku: product.sku || await generateUniqueSku(Product, 'PRD')
+      }
+    });
+  }
+};
+
+// Reviews, comments, replies and likes are stored by username, so they follow the author's renames
+export const renameReviewAuthor = async (
+  from: string,
+  to: string,
+  session?: mongoose.ClientSession
+): Promise<void> => {
+  const options = { session };
+  await Product.updateMany(
+    { 'ratings.user': from },
+    { $set: { 'ratings.$[rating].user': to } },
+    { ...options, arrayFilters: [{ 'rating.user': from }] }
+  );
+  await Product.updateMany(
+    { 'comments.user': from },
+    { $set: { 'comments.$[comment].user': to } },
+    { ...options, arrayFilters: [{ 'comment.user': from }] }
+  );
+  await Product.updateMany(
+    { 'comments.replies.user': from },
+    { $set: { 'comments.$[].replies.$[reply].user': to } },
+    { ...options, arrayFilters: [{ 'reply.user': from }] }
+  );
+  await Product.updateMany(
+    { 'comments.likes': from },
+    { $set: { 'comments.$[].likes.$[like]': to } },
+    { ...options, arrayFilters: [{ like: from }] }
+  );
+  await Product.updateMany(
+    { 'comments.replies.likes': from },
+    { $set: { 'comments.$[].replies.$[].likes.$[like]': to } },
+    { ...options, arrayFilters: [{ like: from }] }
+  );
+};
+
+// Products from before the lifecycle existed were all live
+export const backfillProductStatus = async (): Promise<void> => {
+  await Product.collection.updateMany(
+    { status: { $exists: false } },
+    { $set: { status: 'PUBLISHED' } }
+  );
+};
+
+// Products saved before search covered category names have no copy of it yet; fill them in on startup
+export const backfillCategoryNames = async (): Promise<void> => {
+  const categories = await Category.find({}, { name: 1 });
+  for (const category of categories) {
+    await Product.updateMany(
+      { category: category._id, categoryName: { $exists: false } },
+      { $set: { categoryName: category.name } }
+    );
+  }
+};
+
+export default Product;
\ No newline at end of file
@@ -0,0 +1,20 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ISetting extends Document {
+  key: string;
+  value: any;
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SettingSchema: Schema = new Schema(
+  {
+    key: { type: String, required: true, unique: true, trim: true },
+    value: { type: Schema.Types.Mixed },
+    updatedBy: { type: String },
+  },
+  { timestamps: true }
+);
+
+export default mongoose.model<ISetting>('Setting', SettingSchema);
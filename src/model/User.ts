@@ -1,32 +1,111 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import { hashPassword } from '../utils/Password';
+import { ROLES, Role } from '../config/Roles';
+import { OIDC_PROVIDERS, OidcProvider } from '../config/OidcProviders';
+
+export interface IAddress {
+  _id: mongoose.Types.ObjectId;
+  label: string; // e.g. Home, Office
+  fullName: string;
+  phoneNumber: string;
+  address: string;
+  city: string;
+  postalCode?: string;
+  isDefault: boolean;
+}
+
+export interface IIdentity {
+  provider: OidcProvider;
+  subject: string; // the provider's stable user ID (`sub` claim)
+  email?: string;
+  linkedAt: Date;
+}
+
+export interface ISuspension {
+  type: 'SUSPENDED' | 'BANNED';
+  reason: string;
+  expiresAt?: Date; // unset means until lifted by an admin
+  suspendedBy: string;
+  suspendedAt: Date;
+}
 
 export interface IUser extends Document {
   _id: string,
   username: string;
   email: string;
+  pendingEmail?: string;
   password: string;
-  refreshToken?: string;
-  isAdmin: boolean;
-  resetOTP?: string;
-  resetOTPExpiry?: Date;
+  role: Role;
+  addresses: mongoose.Types.DocumentArray<IAddress>;
+  identities: IIdentity[];
+  isEmailVerified: boolean;
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string;
+  twoFactorPendingSecret?: string;
+  twoFactorRecoveryCodes: string[]; // hashed, each usable once
+  twoFactorLastUsedStep?: number;
+  suspension?: ISuspension;
+  resetTokenHash?: string;
+  resetTokenExpiry?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const AddressSchema: Schema = new Schema({
+  label: { type: String, required: true, trim: true },
+  fullName: { type: String, required: true, trim: true },
+  phoneNumber: { type: String, required: true, trim: true },
+  address: { type: String, required: true, trim: true },
+  city: { type: String, required: true, trim: true },
+  postalCode: { type: String, trim: true },
+  isDefault: { type: Boolean, default: false }
+});
+
+const IdentitySchema: Schema = new Schema({
+  provider: { type: String, enum: OIDC_PROVIDERS, required: true },
+  subject: { type: String, required: true },
+  email: { type: String },
+  linkedAt: { type: Date, default: Date.now }
+}, { _id: false });
+
+const SuspensionSchema: Schema = new Schema({
+  type: { type: String, enum: ['SUSPENDED', 'BANNED'], required: true },
+  reason: { type: String, required: true, trim: true },
+  expiresAt: { type: Date },
+  suspendedBy: { type: String, required: true },
+  suspendedAt: { type: Date, default: Date.now }
+}, { _id: false });
+
 const UserSchema: Schema = new Schema(
   {
     username: { type: String, required: true, unique: true },
     email: { type: String, required: true, unique: true },
+    pendingEmail: { type: String },
     password: { type: String, required: true },
-    refreshToken: { type: String },
-    isAdmin: { type: Boolean, default: false },
-    resetOTP: { type: String },
-    resetOTPExpiry: { type: Date },
+    role: { type: String, enum: ROLES, default: 'customer' },
+    addresses: { type: [AddressSchema], default: [] },
+    identities: { type: [IdentitySchema], default: [] },
+    // Accounts created before email verification existed are treated as verified;
+    // signup explicitly starts new accounts as unverified
+    isEmailVerified: { type: Boolean, default: true },
+    twoFactorEnabled: { type: Boolean, default: false },
+    twoFactorSecret: { type: String },
+    twoFactorPendingSecret: { type: String },
+    twoFactorRecoveryCodes: { type: [String], default: [] },
+    twoFactorLastUsedStep: { type: Number },
+    suspension: { type: SuspensionSchema },
+    resetTokenHash: { type: String },
+    resetTokenExpiry: { type: Date },
   },
   { timestamps: true }
 );
 
+// A provider account can only ever be linked to one user
+UserSchema.index(
+  { 'identities.provider': 1, 'identities.subject': 1 },
+  { unique: true, partialFilterExpression: { 'identities.subject': { $exists: true } } }
+);
+
 // Hash password before saving
 UserSchema.pre<IUser>('save', async function (next) {
   if (!this.isModified('password')) return next();
@@ -34,4 +113,18 @@ UserSchema.pre<IUser>('save', async function (next) {
   next();
 });
 
-export default mongoose.model<IUser>('User', UserSchema);
\ No newline at end of file
+const User = mongoose.model<IUser>('User', UserSchema);
+
+// Accounts from before roles existed only carry an isAdmin flag; convert them once on startup
+export const migrateLegacyAdminFlags = async (): Promise<void> => {
+  await User.collection.updateMany(
+    { role: { $exists: false }, isAdmin: true },
+    { $set: { role: 'admin' }, $unset: { isAdmin: '' } }
+  );
+  await User.collection.updateMany(
+    { role: { $exists: false } },
+    { $set: { role: 'customer' }, $unset: { isAdmin: '' } }
+  );
+};
+
+export default User;
\ No newline at end of file
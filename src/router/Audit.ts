@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { getAuditLogs } from '../controller/Audit';
+import { authenticate, requirePermission } from '../middleware/User';
+
+const auditRouter = Router();
+
+auditRouter.get('/', authenticate, requirePermission('audit:read'), getAuditLogs);
+
+export default auditRouter;
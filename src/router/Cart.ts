@@ -1,13 +1,16 @@
 import { Router } from 'express';
 import * as cartController from '../controller/Cart';
+import { authenticate, requireSelfOrPermission } from '../middleware/User';
 
 const cartRouter = Router();
 
+cartRouter.use(authenticate);
+
 cartRouter.post('/add', cartController.addToCart);
-cartRouter.get('/:userId', cartController.getCart);
+cartRouter.get('/:userId', requireSelfOrPermission('users:read'), cartController.getCart);
 cartRouter.put('/update', cartController.updateCartItem);
 cartRouter.delete('/remove', cartController.removeFromCart);
-cartRouter.delete('/clear/:userId', cartController.clearCart);
-cartRouter.get('/count/:userId', cartController.getCartCount);
+cartRouter.delete('/clear/:userId', requireSelfOrPermission('users:manage'), cartController.clearCart);
+cartRouter.get('/count/:userId', requireSelfOrPermission('users:read'), cartController.getCartCount);
 
 export default cartRouter;
\ No newline at end of file
@@ -4,16 +4,23 @@ import {
   createCategory,
   getAllCategories,
   getCategoryById,
+  getCategoryBySlug,
+  getCategoryBySku,
   updateCategory,
   deleteCategory,
 } from "../controller/Category";
+import { authenticate, requirePermission } from "../middleware/User";
+import { audit } from "../middleware/Audit";
+import Category from "../model/Category";
 
 const categoryRouter = Router();
 
-categoryRouter.post("/", upload.single("image"), createCategory);
+categoryRouter.post("/", authenticate, requirePermission("categories:write"), audit("category.create", { targetType: "category", model: Category }), upload.single("image"), createCategory);
 categoryRouter.get("/", getAllCategories);
+categoryRouter.get("/slug/:slug", getCategoryBySlug);
+categoryRouter.get("/sku/:sku", getCategoryBySku);
 categoryRouter.get("/:id", getCategoryById);
-categoryRouter.put("/:id", upload.single("image"), updateCategory);
-categoryRouter.delete("/:id", deleteCategory);
+categoryRouter.put("/:id", authenticate, requirePermission("categories:write"), audit("category.update", { targetType: "category", model: Category }), upload.single("image"), updateCategory);
+categoryRouter.delete("/:id", authenticate, requirePermission("categories:write"), audit("category.delete", { targetType: "category", model: Category }), deleteCategory);
 
 export default categoryRouter;
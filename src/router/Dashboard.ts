@@ -1,8 +1,11 @@
 import { Router } from "express";
 import { getDashboardStats, getDashboardStatsByTimeRange } from "../controller/Dashboard";
+import { authenticate, requirePermission } from "../middleware/User";
 
 const dashboardRouter = Router();
 
+dashboardRouter.use(authenticate, requirePermission("dashboard:read"));
+
 dashboardRouter.get("/", getDashboardStats);
 
 dashboardRouter.get("/range/:range", getDashboardStatsByTimeRange);
@@ -1,5 +1,8 @@
 import { Router } from 'express';
 import * as orderController from '../controller/Order';
+import { authenticate, requirePermission, requireSelfOrPermission, requireVerifiedEmail } from '../middleware/User';
+import { audit } from '../middleware/Audit';
+import Order from '../model/Order';
 
 const orderRouter = Router();
 
@@ -8,19 +11,20 @@ orderRouter.get('/esewa/success', orderController.handleEsewaSuccess);
 orderRouter.get('/esewa/failure', orderController.handleEsewaFailure);
 
 // Order creation routes
-orderRouter.post('/from-cart', orderController.createOrderFromCart);
-orderRouter.post('/', orderController.createOrder); 
+orderRouter.post('/from-cart', authenticate, requireVerifiedEmail, orderController.createOrderFromCart);
+orderRouter.post('/', authenticate, requireVerifiedEmail, orderController.createOrder); 
 
 // Order retrieval routes
-orderRouter.get('/user/:userId', orderController.getOrdersByUser);
-orderRouter.get('/:orderId', orderController.getOrderById);
-orderRouter.get('/:orderId/payment-status', orderController.checkPaymentStatus);
-orderRouter.get('/', orderController.getAllOrders);
+orderRouter.get('/user/:userId', authenticate, requireSelfOrPermission('orders:read'), orderController.getOrdersByUser);
+orderRouter.get('/:orderId', authenticate, orderController.getOrderById);
+orderRouter.get('/:orderId/payment-status', authenticate, orderController.checkPaymentStatus);
+orderRouter.get('/', authenticate, requirePermission('orders:read'), orderController.getAllOrders);
 
 // Order update routes
-orderRouter.put('/:orderId/status', orderController.updateOrderStatus);
+orderRouter.put('/:orderId/status', authenticate, requirePermission('orders:update'), audit('order.status.update', { targetType: 'order', model: Order }), orderController.updateOrderStatus);
+orderRouter.delete('/:orderId/review-flag', authenticate, requirePermission('orders:update'), audit('order.review_flag.clear', { targetType: 'order', model: Order }), orderController.clearOrderReviewFlag);
 
 // Order stats
-orderRouter.get('/stats/:userId', orderController.getOrderStats);
+orderRouter.get('/stats/:userId', authenticate, requireSelfOrPermission('orders:read'), orderController.getOrderStats);
 
 export default orderRouter;
\ No newline at end of file
@@ -1,29 +1,63 @@
 import express, { Router } from 'express';
-import { multiUpload } from '../middleware/Upload';
+import { multiUpload, upload } from '../middleware/Upload';
 import * as productController from '../controller/Product';
 import * as reviewController from '../controller/ProductRatingsComments';
+import * as variantController from '../controller/ProductVariant';
+import * as importController from '../controller/ProductImport';
+import * as inventoryController from '../controller/Inventory';
+import { authenticate, requirePermission } from '../middleware/User';
+import { audit } from '../middleware/Audit';
+import Product from '../model/Product';
 
 const productRouter = Router();
 
-productRouter.post('/', multiUpload, productController.createProduct);
+productRouter.post('/', authenticate, requirePermission('products:write'), audit('product.create', { targetType: 'product', model: Product }), multiUpload, productController.createProduct);
 productRouter.get('/', productController.getAllProducts);
 
+// Bulk CSV import/export
+productRouter.post('/import', authenticate, requirePermission('products:write'), audit('product.import', { targetType: 'product' }), express.text({ type: ['text/csv', 'text/plain'], limit: '5mb' }), importController.importProducts);
+productRouter.get('/export', authenticate, requirePermission('products:write'), importController.exportProducts);
+
+// Admin listing across draft/published/archived
+productRouter.get('/admin/list', authenticate, requirePermission('products:write'), productController.getAdminProducts);
+productRouter.get('/admin/:id', authenticate, requirePermission('products:write'), productController.getAdminProductById);
+
+// Inventory reports across products
+productRouter.get('/inventory/low-stock', authenticate, requirePermission('products:write'), inventoryController.getLowStock);
+productRouter.post('/inventory/low-stock/notify', authenticate, requirePermission('products:write'), inventoryController.notifyLowStock);
+
 productRouter.get('/search/suggestions', productController.getSearchSuggestions);
 productRouter.get('/featured/products', productController.getFeaturedProducts);
 
+// Lookups by storefront slug or SKU
+productRouter.get('/slug/:slug', productController.getProductBySlug);
+productRouter.get('/sku/:sku', productController.getProductBySku);
+
 productRouter.get('/:id', productController.getProductById);
-productRouter.put('/:id', multiUpload, productController.updateProduct);
-productRouter.delete('/:id', productController.deleteProduct);
+productRouter.put('/:id', authenticate, requirePermission('products:write'), audit('product.update', { targetType: 'product', model: Product }), multiUpload, productController.updateProduct);
+productRouter.delete('/:id', authenticate, requirePermission('products:write'), audit('product.archive', { targetType: 'product', model: Product }), productController.deleteProduct);
+productRouter.patch('/:id/status', authenticate, requirePermission('products:write'), audit('product.status.update', { targetType: 'product', model: Product }), productController.updateProductStatus);
+productRouter.post('/:id/restore', authenticate, requirePermission('products:write'), audit('product.restore', { targetType: 'product', model: Product }), productController.restoreProduct);
 productRouter.get('/:id/recommendations', productController.recommendProducts);
 
+// Variant routes
+productRouter.put('/:productId/options', authenticate, requirePermission('products:write'), audit('product.options.update', { targetType: 'product', model: Product }), variantController.setProductOptions);
+productRouter.post('/:productId/variants', authenticate, requirePermission('products:write'), audit('product.variant.create', { targetType: 'product', model: Product }), upload.single('image'), variantController.addVariant);
+productRouter.put('/:productId/variants/:variantId', authenticate, requirePermission('products:write'), audit('product.variant.update', { targetType: 'product', model: Product }), upload.single('image'), variantController.updateVariant);
+productRouter.delete('/:productId/variants/:variantId', authenticate, requirePermission('products:write'), audit('product.variant.delete', { targetType: 'product', model: Product }), variantController.deleteVariant);
+
+// Inventory ledger
+productRouter.get('/:productId/stock-movements', authenticate, requirePermission('products:write'), inventoryController.getStockMovements);
+productRouter.post('/:productId/stock-adjustments', authenticate, requirePermission('products:write'), audit('product.stock.adjust', { targetType: 'product', model: Product }), inventoryController.adjustProductStock);
+
 // Rating and comment routes
-productRouter.post('/:productId/ratings', reviewController.addRating);
-productRouter.post('/:productId/comments', reviewController.addComment);
-productRouter.post('/:productId/comments/:commentId/replies', reviewController.addReply);
-productRouter.post('/:productId/comments/:commentId/like', reviewController.likeComment);
-productRouter.post('/:productId/comments/:commentId/replies/:replyId/like', reviewController.likeReply);
-productRouter.delete('/:productId/comments/:commentId', reviewController.deleteComment);
-productRouter.delete('/:productId/comments/:commentId/replies/:replyId', reviewController.deleteReply);
+productRouter.post('/:productId/ratings', authenticate, reviewController.addRating);
+productRouter.post('/:productId/comments', authenticate, reviewController.addComment);
+productRouter.post('/:productId/comments/:commentId/replies', authenticate, reviewController.addReply);
+productRouter.post('/:productId/comments/:commentId/like', authenticate, reviewController.likeComment);
+productRouter.post('/:productId/comments/:commentId/replies/:replyId/like', authenticate, reviewController.likeReply);
+productRouter.delete('/:productId/comments/:commentId', authenticate, reviewController.deleteComment);
+productRouter.delete('/:productId/comments/:commentId/replies/:replyId', authenticate, reviewController.deleteReply);
 productRouter.get('/:productId/reviews', reviewController.getProductReviews);
 
 export default productRouter;
\ No newline at end of file
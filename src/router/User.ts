@@ -2,31 +2,125 @@ import { Router } from 'express';
 import {
   signup,
   login,
+  verifyTwoFactorLogin,
+  requestLoginCode,
+  loginWithCode,
+  loginWithOidc,
   refreshToken,
+  logout,
+  logoutAll,
+  getSessions,
+  revokeUserSession,
+  getProfile,
+  updateUsername,
+  requestEmailChange,
+  confirmEmailChange,
+  changePassword,
   requestPasswordReset,
   verifyOTPAndResetPassword,
   resendOTP,
   verifyOTP,
-  updateUserAdminStatus,
+  updateUserRole,
+  updateUserEmailVerification,
+  unlockUserAccount,
   getAllUsers,
+  suspendUser,
+  reinstateUser,
+  verifyEmail,
+  resendVerificationEmail,
 } from '../controller/User';
-import { authenticate } from '../middleware/User';
+import {
+  getAddresses,
+  addAddress,
+  updateAddress,
+  setDefault,
+  deleteAddress,
+} from '../controller/Address';
+import { exportUserData, deleteAccount } from '../controller/Privacy';
+import { getIdentities, linkIdentity, unlinkIdentity } from '../controller/Identity';
+import {
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  resetUserTwoFactor,
+  getSecuritySettingsHandler,
+  updateSecuritySettingsHandler,
+} from '../controller/TwoFactor';
+import { authenticate, requirePermission } from '../middleware/User';
+import { audit } from '../middleware/Audit';
+import User from '../model/User';
+import { getSecuritySettings } from '../utils/Settings';
 
 const userRouter = Router();
 
 // Authentication routes
 userRouter.post('/signup', signup);
 userRouter.post('/login', login);
+userRouter.post('/login/2fa', verifyTwoFactorLogin);
+userRouter.post('/login/code/request', requestLoginCode);
+userRouter.post('/login/code', loginWithCode);
+userRouter.post('/login/oidc', loginWithOidc);
 userRouter.post('/refresh-token', refreshToken);
 
+// Session management routes
+userRouter.post('/logout', authenticate, logout);
+userRouter.post('/logout-all', authenticate, logoutAll);
+userRouter.get('/sessions', authenticate, getSessions);
+userRouter.delete('/sessions/:sessionId', authenticate, revokeUserSession);
+
+// Profile routes
+userRouter.get('/me', authenticate, getProfile);
+userRouter.patch('/me/username', authenticate, updateUsername);
+userRouter.post('/me/email', authenticate, requestEmailChange);
+userRouter.post('/me/email/verify', authenticate, confirmEmailChange);
+userRouter.patch('/me/password', authenticate, changePassword);
+userRouter.get('/me/export', authenticate, exportUserData);
+userRouter.delete('/me', authenticate, deleteAccount);
+
+// Two-factor authentication routes
+userRouter.post('/me/2fa/setup', authenticate, setupTwoFactor);
+userRouter.post('/me/2fa/enable', authenticate, enableTwoFactor);
+userRouter.post('/me/2fa/disable', authenticate, disableTwoFactor);
+userRouter.post('/me/2fa/recovery-codes', authenticate, regenerateRecoveryCodes);
+
+// Linked sign-in provider routes
+userRouter.get('/me/identities', authenticate, getIdentities);
+userRouter.post('/me/identities', authenticate, linkIdentity);
+userRouter.delete('/me/identities/:provider', authenticate, unlinkIdentity);
+
+// Address book routes
+userRouter.get('/me/addresses', authenticate, getAddresses);
+userRouter.post('/me/addresses', authenticate, addAddress);
+userRouter.put('/me/addresses/:addressId', authenticate, updateAddress);
+userRouter.patch('/me/addresses/:addressId/default', authenticate, setDefault);
+userRouter.delete('/me/addresses/:addressId', authenticate, deleteAddress);
+
+// Email verification routes
+userRouter.post('/verify-email', verifyEmail);
+userRouter.post('/resend-verification', resendVerificationEmail);
+
 // Password reset routes
 userRouter.post('/request-password-reset', requestPasswordReset);
 userRouter.post('/verify-otp-reset-password', verifyOTPAndResetPassword);
 userRouter.post('/resend-otp', resendOTP);
 userRouter.post('/verify-otp', verifyOTP);
 
-//users list and admin-status
-userRouter.get('/users-list', getAllUsers);
-userRouter.patch('/users-list/:userId/admin-status', updateUserAdminStatus);
+//users list and role management
+userRouter.get('/users-list', authenticate, requirePermission('users:read'), getAllUsers);
+userRouter.patch('/users-list/:userId/role', authenticate, requirePermission('users:manage'), audit('user.role.update', { targetType: 'user', model: User }), updateUserRole);
+userRouter.patch('/users-list/:userId/email-verified', authenticate, requirePermission('users:manage'), audit('user.email_verification.update', { targetType: 'user', model: User }), updateUserEmailVerification);
+userRouter.post('/users-list/:userId/unlock', authenticate, requirePermission('users:manage'), audit('user.unlock', { targetType: 'user' }), unlockUserAccount);
+userRouter.post('/users-list/:userId/suspend', authenticate, requirePermission('users:manage'), audit('user.suspend', { targetType: 'user', model: User }), suspendUser);
+userRouter.post('/users-list/:userId/reinstate', authenticate, requirePermission('users:manage'), audit('user.reinstate', { targetType: 'user', model: User }), reinstateUser);
+userRouter.post('/users-list/:userId/2fa/reset', authenticate, requirePermission('users:manage'), audit('user.2fa.reset', { targetType: 'user', model: User }), resetUserTwoFactor);
+
+// Security settings
+userRouter.get('/security-settings', authenticate, requirePermission('users:manage'), getSecuritySettingsHandler);
+userRouter.put('/security-settings', authenticate, requirePermission('users:manage'), audit('settings.security.update', {
+  targetType: 'setting',
+  targetId: () => 'security',
+  snapshot: async () => ({ ...(await getSecuritySettings()) })
+}), updateSecuritySettingsHandler);
 
 export default userRouter;
\ No newline at end of file
@@ -0,0 +1,69 @@
+import AuditLog from '../model/AuditLog';
+
+// Never copy secrets into the audit trail
+const REDACTED_FIELDS = new Set([
+  'password',
+  'resetTokenHash',
+  'resetTokenExpiry',
+  'twoFactorSecret',
+  'twoFactorPendingSecret',
+  'twoFactorRecoveryCodes',
+  'twoFactorLastUsedStep',
+]);
+const IGNORED_FIELDS = new Set(['__v', 'updatedAt']);
+
+type Snapshot = Record<string, unknown> | null | undefined;
+
+const normalize = (value: unknown): unknown => {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+};
+
+// Top-level field diff; nested values are compared by their JSON form
+export const diffSnapshots = (before: Snapshot, after: Snapshot) => {
+  const beforeChanges: Record<string, unknown> = {};
+  const afterChanges: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const key of keys) {
+    if (IGNORED_FIELDS.has(key)) continue;
+
+    const oldValue = normalize(before?.[key]);
+    const newValue = normalize(after?.[key]);
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+
+    if (REDACTED_FIELDS.has(key)) {
+      if (before) beforeChanges[key] = '[redacted]';
+      if (after) afterChanges[key] = '[redacted]';
+      continue;
+    }
+
+    if (before) beforeChanges[key] = oldValue;
+    if (after) afterChanges[key] = newValue;
+  }
+
+  return {
+    before: before ? beforeChanges : undefined,
+    after: after ? afterChanges : undefined
+  };
+};
+
+interface AuditEntry {
+  actor: { userId: string; username: string; role: string };
+  action: string;
+  target: { type: string; id?: string };
+  before?: Snapshot;
+  after?: Snapshot;
+  ip?: string;
+  userAgent?: string;
+}
+
+export const recordAudit = async (entry: AuditEntry): Promise<void> => {
+  await AuditLog.create({
+    actor: entry.actor,
+    action: entry.action,
+    target: entry.target,
+    changes: diffSnapshots(entry.before, entry.after),
+    ip: entry.ip,
+    userAgent: entry.userAgent
+  });
+};
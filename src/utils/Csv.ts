@@ -0,0 +1,72 @@
+// Minimal RFC 4180 CSV support: quoted fields, escaped quotes ("") and line breaks inside quotes
+
+// Spreadsheets run text starting with one of these as a formula (CSV injection). Such text is
+// exported with a leading ' and the ' is removed again on import; text that already starts with
+// quotes before one of these gets one more, so the round trip stays lossless.
+const FORMULA_PATTERN = /^'*[=+\-@\t\r]/;
+
+const protectFormula = (text: string): string => FORMULA_PATTERN.test(text) ? `'${text}` : text;
+
+const unprotectFormula = (text: string): string => text.startsWith("'") && FORMULA_PATTERN.test(text) ? text.slice(1) : text;
+
+export const parseCsv = (input: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const text = input.replace(/^\uFEFF/, ''); // Excel adds a BOM
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Ignore blank lines, which spreadsheets often leave at the end
+  return rows
+    .filter(cells => cells.some(cell => cell.trim() !== ''))
+    .map(cells => cells.map(unprotectFormula));
+};
+
+// Only text is protected; numbers such as a negative amount stay numbers
+const escapeField = (value: unknown): string => {
+  const text = value === undefined || value === null
+    ? ''
+    : typeof value === 'string' ? protectFormula(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (header: string[], rows: unknown[][]): string => {
+  return [header, ...rows].map(cells => cells.map(escapeField).join(',')).join('\r\n') + '\r\n';
+};
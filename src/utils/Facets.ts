@@ -0,0 +1,93 @@
+import { PipelineStage } from 'mongoose';
+import { effectivePriceExpression } from './Pricing';
+
+export type FacetName = 'category' | 'price' | 'rating' | 'inStock';
+
+// Each storefront filter, kept separate so a facet can be counted without its own filter
+export type FacetFilters = Partial<Record<FacetName, Record<string, unknown>>>;
+
+const PRICE_BOUNDARIES = [0, 1000, 5000, 10000, 50000];
+const RATING_THRESHOLDS = [4, 3, 2, 1]; // "4 stars & up", ...
+
+export const combineFilters = (filters: FacetFilters, except?: FacetName): Record<string, any> => {
+  return Object.assign(
+    {},
+    ...(Object.keys(filters) as FacetName[])
+      .filter(name => name !== except)
+      .map(name => filters[name])
+  );
+};
+
+// A $facet stage to run after the search $match; every branch applies all filters but its own
+export const buildFacetStage = (filters: FacetFilters, now: Date = new Date()): PipelineStage.Facet => ({
+  $facet: {
+    categories: [
+      { $match: combineFilters(filters, 'category') },
+      { $group: { _id: '$category', name: { $first: '$categoryName' }, count: { $sum: 1 } } },
+      { $sort: { count: -1, name: 1 } }
+    ],
+    price: [
+      { $match: combineFilters(filters, 'price') },
+      {
+        $bucket: {
+          groupBy: effectivePriceExpression(now),
+          boundaries: PRICE_BOUNDARIES,
+          default: 'above',
+          output: { count: { $sum: 1 } }
+        }
+      }
+    ],
+    rating: [
+      { $match: combineFilters(filters, 'rating') },
+      {
+        $group: {
+          _id: null,
+          ...Object.fromEntries(RATING_THRESHOLDS.map(threshold => [
+            `atLeast${threshold}`,
+            { $sum: { $cond: [{ $gte: ['$averageRating', threshold] }, 1, 0] } }
+          ]))
+        }
+      }
+    ],
+    inStock: [
+      { $match: combineFilters(filters, 'inStock') },
+      { $match: { stock: { $gt: 0 } } },
+      { $count: 'count' }
+    ]
+  }
+});
+
+// Shapes the $facet output so each `value` can be sent back as the matching query parameter
+export const formatFacets = (result: any) => {
+  const priceCounts = new Map<unknown, number>(
+    (result?.price || []).map((bucket: any) => [bucket._id, bucket.count])
+  );
+  const ratingCounts = result?.rating?.[0] || {};
+
+  return {
+    categories: (result?.categories || []).map((category: any) => ({
+      value: category._id?.toString(),
+      name: category.name,
+      count: category.count
+    })),
+    price: [
+      ...PRICE_BOUNDARIES.slice(0, -1).map((min, index) => ({
+        value: `${min}-${PRICE_BOUNDARIES[index + 1]}`,
+        min,
+        max: PRICE_BOUNDARIES[index + 1] as number | null,
+        count: priceCounts.get(min) || 0
+      })),
+      {
+        value: `${PRICE_BOUNDARIES[PRICE_BOUNDARIES.length - 1]}-`,
+        min: PRICE_BOUNDARIES[PRICE_BOUNDARIES.length - 1],
+        max: null,
+        count: priceCounts.get('above') || 0
+      }
+    ],
+    rating: RATING_THRESHOLDS.map(threshold => ({
+      value: threshold,
+      count: ratingCounts[`atLeast${threshold}`] || 0
+    })),
+    inStock: result?.inStock?.[0]?.count || 0
+  };
+};
@@ -0,0 +1,72 @@
+import crypto from 'crypto';
+import { Model } from 'mongoose';
+
+interface Sluggable {
+  _id: unknown;
+  slug?: string;
+  previousSlugs: string[];
+}
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const MAX_SLUG_LENGTH = 80;
+
+export const slugify = (text: string): string => {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // strip accents
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/-+$/, '') || 'item';
+};
+
+// Old slugs stay reserved so links to them keep redirecting to the right document
+const isSlugTaken = async (model: Model<any>, slug: string, excludeId?: unknown): Promise<boolean> => {
+  const existing = await model.exists({
+    _id: { $ne: excludeId },
+    $or: [{ slug }, { previousSlugs: slug }]
+  });
+  return !!existing;
+};
+
+export const generateUniqueSlug = async (model: Model<any>, name: string, excludeId?: unknown): Promise<string> => {
+  const base = slugify(name);
+  let candidate = base;
+  for (let suffix = 2; await isSlugTaken(model, candidate, excludeId); suffix++) {
+    candidate = `${base}-${suffix}`;
+  }
+  return candidate;
+};
+
+// Explicit slug change: the old slug is kept for redirects. Returns an error message or null.
+export const changeSlug = async (model: Model<any>, doc: Sluggable, slug: string): Promise<string | null> => {
+  if (!SLUG_PATTERN.test(slug) || slug.length > MAX_SLUG_LENGTH) {
+    return 'slug may only contain lowercase letters, numbers and single hyphens';
+  }
+  if (slug === doc.slug) return null;
+  if (await isSlugTaken(model, slug, doc._id)) return 'slug is already in use';
+
+  const previous = doc.previousSlugs.filter(old => old !== slug);
+  if (doc.slug) previous.push(doc.slug);
+  doc.previousSlugs = previous;
+  doc.slug = slug;
+  return null;
+};
+
+// Product SKUs share one namespace with variant SKUs so a scan resolves to one item
+export const isSkuTaken = async (model: Model<any>, sku: string, excludeId?: unknown): Promise<boolean> => {
+  const existing = await model.exists({
+    _id: { $ne: excludeId },
+    $or: [{ sku }, { 'variants.sku': sku }]
+  });
+  return !!existing;
+};
+
+export const generateUniqueSku = async (model: Model<any>, prefix: string): Promise<string> => {
+  let sku: string;
+  do {
+    sku = `${prefix}-${crypto.randomBytes(4).toString('hex').toUpperCase()}`;
+  } while (await isSkuTaken(model, sku));
+  return sku;
+};
@@ -0,0 +1,257 @@
+import mongoose, { ClientSession } from 'mongoose';
+import InventoryMovement, { IInventoryMovement, InventoryReason } from '../model/InventoryMovement';
+import Product, { DEFAULT_LOW_STOCK_THRESHOLD, IProduct, IVariant } from '../model/Product';
+import User from '../model/User';
+import { ROLES, hasPermission } from '../config/Roles';
+import { findVariant, variantLabel } from './Variants';
+import { sendMail } from './Mailer';
+
+export interface StockMovementDetails {
+  reason: InventoryReason;
+  actor?: { userId: string; username: string };
+  order?: mongoose.Types.ObjectId | string;
+  note?: string;
+}
+
+export interface LowStockItem {
+  productId: string;
+  variantId?: string;
+  name: string;
+  label?: string;
+  sku?: string;
+  stock: number;
+  threshold: number;
+}
+
+// Sales are only recorded by checkout; staff pick one of these for manual movements
+export const MANUAL_STOCK_REASONS: InventoryReason[] = ['RESTOCK', 'RETURN', 'CORRECTION', 'DAMAGE'];
+
+export const isManualStockReason = (value: unknown): value is InventoryReason => {
+  return typeof value === 'string' && (MANUAL_STOCK_REASONS as string[]).includes(value);
+};
+
+export const stockActor = (user?: { userId: string; username: string }) => {
+  return user ? { userId: user.userId, username: user.username } : undefined;
+};
+
+// Stock lives on the variants when a product has any; the product total is recomputed on save
+const resolveStockHolder = (product: IProduct, variantId?: string): IProduct | IVariant | { error: string } => {
+  if (product.variants.length === 0) {
+    return variantId ? { error: `${product.name} has no variants` } : product;
+  }
+  if (!variantId) return { error: `Choose a variant of ${product.name}; its stock is the sum of its variants` };
+  return findVariant(product, variantId) || { error: `Variant not found for ${product.name}` };
+};
+
+// Thrown from inside a stock transaction so everything in it rolls back; status is the HTTP status to answer with
+export class StockError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'StockError';
+    this.status = status;
+  }
+}
+
+export const runInTransaction = async <T>(work: (session: ClientSession) => Promise<T>): Promise<T> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+  try {
+    const result = await work(session);
+    await session.commitTransaction();
+    return result;
+  } catch (error) {
+    await session.abortTransaction();
+    throw error;
+  } finally {
+    session.endSession();
+  }
+};
+
+// Opening stock of a product or variant that hasn't been saved yet: changes it in memory and
+// returns the unsaved ledger entry, to be saved in the same transaction as the product
+export const changeStock = (
+  product: IProduct,
+  variantId: string | undefined,
+  delta: number,
+  details: StockMovementDetails
+): IInventoryMovement | { error: string } => {
+  const holder = resolveStockHolder(product, variantId);
+  if ('error' in holder) return holder;
+  if (holder.stock + delta < 0) return { error: `Only ${holder.stock} of ${product.name} in stock` };
+
+  holder.stock += delta;
+  const variant = holder === product ? undefined : holder as IVariant;
+
+  return new InventoryMovement({
+    product: product._id,
+    variant: variant?._id,
+    sku: variant ? variant.sku : product.sku,
+    delta,
+    stockAfter: holder.stock,
+    ...details
+  });
+};
+
+interface StockUpdateOptions {
+  session?: ClientSession;
+  expectedStock?: number; // only apply if the stock is still this, e.g. the level an edit form was loaded with
+}
+
+// Applies the change to the stored product with one conditional $inc, so concurrent changes can't
+// overwrite each other or take stock below zero, then writes the ledger entry. Pass a session so
+// both commit or roll back together. Returns the updated product.
+export const adjustStock = async (
+  product: IProduct,
+  variantId: string | undefined,
+  delta: number,
+  details: StockMovementDetails,
+  options: StockUpdateOptions = {}
+): Promise<{ product: IProduct; movement: IInventoryMovement }> => {
+  const holder = resolveStockHolder(product, variantId);
+  if ('error' in holder) throw new StockError(holder.error);
+  const variant = holder === product ? undefined : holder as IVariant;
+
+  const stockCondition = options.expectedStock !== undefined
+    ? { $eq: options.expectedStock }
+    : { $gte: Math.max(0, -delta) };
+
+  const updated = await Product.findOneAndUpdate(
+    variant
+      ? { _id: product._id, variants: { $elemMatch: { _id: variant._id, stock: stockCondition } } }
+      : { _id: product._id, 'variants.0': { $exists: false }, stock: stockCondition },
+    variant
+      ? { $inc: { 'variants.$.stock': delta, stock: delta } }
+      : { $inc: { stock: delta } },
+    { new: true, session: options.session }
+  );
+
+  if (!updated) {
+    throw options.expectedStock !== undefined
+      ? new StockError(`The stock of ${product.name} was changed by someone else; reload and try again`, 409)
+      : new StockError(`Not enough stock of ${product.name}${variant ? ` (${variantLabel(product, variant)})` : ''}`);
+  }
+
+  const updatedVariant = variant ? findVariant(updated, variant._id.toString()) : null;
+  const movement = new InventoryMovement({
+    product: product._id,
+    variant: variant?._id,
+    sku: variant ? variant.sku : product.sku,
+    delta,
+    stockAfter: updatedVariant ? updatedVariant.stock : updated.stock,
+    ...details
+  });
+  await movement.save({ session: options.session });
+
+  return { product: updated, movement };
+};
+
+// For forms that send the new stock level rather than a change; null when the level is unchanged.
+// Pass the level the form was loaded with as expectedStock, so a sale made while it was open
+// fails the change instead of being overwritten; without it, the level as loaded by the caller.
+export const setStockLevel = async (
+  product: IProduct,
+  variantId: string | undefined,
+  level: number,
+  details: StockMovementDetails,
+  options: StockUpdateOptions = {}
+): Promise<{ product: IProduct; movement: IInventoryMovement } | null> => {
+  const holder = resolveStockHolder(product, variantId);
+  if ('error' in holder) throw new StockError(holder.error);
+  if (level < 0) throw new StockError('stock must be at least 0');
+
+  const expectedStock = options.expectedStock ?? holder.stock;
+  if (expectedStock === level) return null;
+
+  return adjustStock(product, variantId, level - expectedStock, details, { session: options.session, expectedStock });
+};
+
+// Reads the optional expectedStock a stock form sends back; an error message if it isn't a valid level
+export const parseExpectedStock = (value: unknown): number | undefined | { error: string } => {
+  if (value === undefined || value === '') return undefined;
+  const level = Number(value);
+  if (!Number.isInteger(level) || level < 0) return { error: 'expectedStock must be a whole number of at least 0' };
+  return level;
+};
+
+// Everything at or below its product's threshold, lowest stock first; archived products are left out
+export const getLowStockReport = async (): Promise<LowStockItem[]> => {
+  const threshold = { $ifNull: ['$lowStockThreshold', DEFAULT_LOW_STOCK_THRESHOLD] };
+  const products = await Product.find(
+    {
+      status: { $ne: 'ARCHIVED' },
+      $expr: {
+        $or: [
+          { $lte: ['$stock', threshold] },
+          {
+            $and: [
+              { $gt: [{ $size: { $ifNull: ['$variants', []] } }, 0] },
+              { $lte: [{ $min: '$variants.stock' }, threshold] }
+            ]
+          }
+        ]
+      }
+    },
+    { name: 1, sku: 1, stock: 1, lowStockThreshold: 1, options: 1, variants: 1 }
+  );
+
+  const items: LowStockItem[] = [];
+  for (const product of products) {
+    const limit = product.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD;
+
+    if (product.variants.length === 0) {
+      items.push({
+        productId: product._id.toString(),
+        name: product.name,
+        sku: product.sku,
+        stock: product.stock,
+        threshold: limit
+      });
+      continue;
+    }
+
+    for (const variant of product.variants) {
+      if (variant.stock > limit) continue;
+      items.push({
+        productId: product._id.toString(),
+        variantId: variant._id.toString(),
+        name: product.name,
+        label: variantLabel(product, variant),
+        sku: variant.sku,
+        stock: variant.stock,
+        threshold: limit
+      });
+    }
+  }
+
+  return items.sort((a, b) => a.stock - b.stock || a.name.localeCompare(b.name));
+};
+
+// LOW_STOCK_ALERT_EMAILS (comma-separated) when set, otherwise every account that manages products
+const lowStockRecipients = async (): Promise<string[]> => {
+  const configured = (process.env.LOW_STOCK_ALERT_EMAILS || '')
+    .split(',')
+    .map(email => email.trim())
+    .filter(Boolean);
+  if (configured.length > 0) return configured;
+
+  const roles = ROLES.filter(role => hasPermission(role, 'products:write'));
+  const staff = await User.find({ role: { $in: roles } }, { email: 1 });
+  return staff.map(user => user.email).filter(Boolean);
+};
+
+// Emails the report; returns how many recipients it went to
+export const sendLowStockReport = async (items: LowStockItem[]): Promise<number> => {
+  if (items.length === 0) return 0;
+
+  const recipients = await lowStockRecipients();
+  const lines = items.map(item =>
+    `${item.name}${item.label ? ` (${item.label})` : ''}${item.sku ? ` [${item.sku}]` : ''}: ${item.stock} left, threshold ${item.threshold}`
+  ).join('\n');
+
+  for (const email of recipients) {
+    await sendMail(email, 'low-stock-report', { itemCount: items.length, items: lines });
+  }
+  return recipients.length;
+};
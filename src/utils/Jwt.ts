@@ -1,4 +1,6 @@
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
+import { Role } from '../config/Roles';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -6,14 +8,20 @@ dotenv.config();
 const ACCESS_TOKEN_SECRET = process.env.ACCESS_TOKEN_SECRET!;
 const REFRESH_TOKEN_SECRET = process.env.REFRESH_TOKEN_SECRET!;
 
+// Challenge tokens must never be accepted as access tokens, so they get their own key
+const TWO_FACTOR_CHALLENGE_SECRET = `${ACCESS_TOKEN_SECRET}:2fa-challenge`;
+
 const ACCESS_TOKEN_EXPIRY = '5m';
+const TWO_FACTOR_CHALLENGE_EXPIRY = '5m';
 const REFRESH_TOKEN_EXPIRY = '1d';
+export const REFRESH_TOKEN_EXPIRY_MS = 24 * 60 * 60 * 1000;
 
-interface TokenPayload {
+export interface TokenPayload {
     userId: string;
     username: string;
     email: string; 
-    isAdmin: boolean;
+    role: Role;
+    sessionId?: string;
 }
 
 export const generateAccessToken = (payload: TokenPayload): string => {
@@ -23,7 +31,8 @@ export const generateAccessToken = (payload: TokenPayload): string => {
         userId: payload.userId,
         username: payload.username,
         email: payload.email,  
-        isAdmin: payload.isAdmin
+        role: payload.role,
+        sessionId: payload.sessionId
     }, ACCESS_TOKEN_SECRET, {
         expiresIn: ACCESS_TOKEN_EXPIRY,
     });
@@ -34,9 +43,11 @@ export const generateRefreshToken = (payload: TokenPayload): string => {
         userId: payload.userId,
         username: payload.username,
         email: payload.email,  
-        isAdmin: payload.isAdmin
+        role: payload.role,
+        sessionId: payload.sessionId
     }, REFRESH_TOKEN_SECRET, {
         expiresIn: REFRESH_TOKEN_EXPIRY,
+        jwtid: crypto.randomUUID(), // Every rotation must produce a distinct token
     });
 };
 
@@ -46,4 +57,19 @@ export const verifyAccessToken = (token: string): TokenPayload => {
 
 export const verifyRefreshToken = (token: string): TokenPayload => {
     return jwt.verify(token, REFRESH_TOKEN_SECRET) as TokenPayload;
+};
+
+// Issued after a correct password when the account still needs a second factor
+export const generateTwoFactorChallengeToken = (userId: string): string => {
+    return jwt.sign({ userId, purpose: '2fa-challenge' }, TWO_FACTOR_CHALLENGE_SECRET, {
+        expiresIn: TWO_FACTOR_CHALLENGE_EXPIRY,
+    });
+};
+
+export const verifyTwoFactorChallengeToken = (token: string): { userId: string } => {
+    const decoded = jwt.verify(token, TWO_FACTOR_CHALLENGE_SECRET) as { userId: string; purpose: string };
+    if (decoded.purpose !== '2fa-challenge') {
+        throw new Error('Invalid two-factor challenge token');
+    }
+    return { userId: decoded.userId };
 };
\ No newline at end of file
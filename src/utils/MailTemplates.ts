@@ -0,0 +1,289 @@
+export type MailTemplateName =
+  | 'password-reset-otp'
+  | 'login-otp'
+  | 'email-verification'
+  | 'account-locked'
+  | 'order-confirmation'
+  | 'low-stock-report';
+
+export type MailVariables = { [name: string]: string | number };
+
+interface MailTemplate {
+  subject: string;
+  heading: string;
+  subheading: string;
+  html: string; // body markup, wrapped in the shared layout
+  text: string; // plain-text fallback
+}
+
+export interface RenderedMail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const OTP_SECURITY_NOTE = `
+        <div class="note">
+          <strong>For your security:</strong>
+          <p>• Never share this code with anyone</p>
+          <p>• This code will expire shortly</p>
+          <p>• If you didn't request this, please ignore this email</p>
+        </div>`;
+
+const templates: { [name in MailTemplateName]: MailTemplate } = {
+  'password-reset-otp': {
+    subject: 'Your Password Reset Code',
+    heading: 'Password Reset',
+    subheading: 'Your security code',
+    html: `
+        <p>Hi <strong>{{username}}</strong>,</p>
+        
+        <p>We received a request to reset your password. Here's your one-time passcode:</p>
+        
+        <div class="otp-box">
+          <div style="margin-bottom: 5px; color: #64748b;">Enter this code to continue:</div>
+          <div class="otp-code">{{otp}}</div>
+          <div style="font-size: 14px; color: #64748b;">Expires in {{expiryMinutes}} minutes</div>
+        </div>
+        ${OTP_SECURITY_NOTE}`,
+    text: `Hi {{username}},
+
+We received a request to reset your password. Your one-time passcode is: {{otp}}
+
+It expires in {{expiryMinutes}} minutes. Never share this code with anyone. If you didn't request this, please ignore this email.`
+  },
+  'login-otp': {
+    subject: 'Your Sign-In Code',
+    heading: 'Sign In',
+    subheading: 'Your security code',
+    html: `
+        <p>Hi <strong>{{username}}</strong>,</p>
+        
+        <p>Use this one-time code to sign in to your account:</p>
+        
+        <div class="otp-box">
+          <div style="margin-bottom: 5px; color: #64748b;">Enter this code to sign in:</div>
+          <div class="otp-code">{{otp}}</div>
+          <div style="font-size: 14px; color: #64748b;">Expires in {{expiryMinutes}} minutes</div>
+        </div>
+        ${OTP_SECURITY_NOTE}`,
+    text: `Hi {{username}},
+
+Your one-time sign-in code is: {{otp}}
+
+It expires in {{expiryMinutes}} minutes. Never share this code with anyone. If you didn't try to sign in, please ignore this email.`
+  },
+  'email-verification': {
+    subject: 'Verify Your Email Address',
+    heading: 'Email Verification',
+    subheading: 'Your security code',
+    html: `
+        <p>Hi <strong>{{username}}</strong>,</p>
+        
+        <p>Thanks for signing up! Use this code to verify your email address:</p>
+        
+        <div class="otp-box">
+          <div style="margin-bottom: 5px; color: #64748b;">Enter this code to continue:</div>
+          <div class="otp-code">{{otp}}</div>
+          <div style="font-size: 14px; color: #64748b;">Expires in {{expiryMinutes}} minutes</div>
+        </div>
+        ${OTP_SECURITY_NOTE}`,
+    text: `Hi {{username}},
+
+Thanks for signing up! Your email verification code is: {{otp}}
+
+It expires in {{expiryMinutes}} minutes. If you didn't create an account, please ignore this email.`
+  },
+  'account-locked': {
+    subject: 'Your Account Has Been Temporarily Locked',
+    heading: 'Account Locked',
+    subheading: 'Too many sign-in attempts',
+    html: `
+        <p>Hi <strong>{{username}}</strong>,</p>
+        
+        <p>We noticed several unsuccessful sign-in attempts on your account, so we've locked it to keep it safe.</p>
+        
+        <p>You can try again after <strong>{{unlockAt}}</strong>, or reset your password now.</p>
+        
+        <div class="note">
+          If this wasn't you, we recommend resetting your password once the lock expires.
+        </div>`,
+    text: `Hi {{username}},
+
+We noticed several unsuccessful sign-in attempts on your account, so we've locked it to keep it safe.
+
+You can try again after {{unlockAt}}, or reset your password now. If this wasn't you, we recommend resetting your password once the lock expires.`
+  },
+  'order-confirmation': {
+    subject: 'Your Order {{orderId}} Is Confirmed',
+    heading: 'Order Confirmed',
+    subheading: 'Thank you for shopping with us',
+    html: `
+        <p>Hi <strong>{{username}}</strong>,</p>
+        
+        <p>Your order <strong>#{{orderId}}</strong> has been confirmed.</p>
+        
+        <div class="note">
+          <p>Items: {{itemCount}}</p>
+          <p>Payment method: {{paymentMethod}}</p>
+          <p><strong>Total: Rs {{grandTotal}}</strong></p>
+        </div>
+        
+        <p>We'll let you know when it's on its way.</p>`,
+    text: `Hi {{username}},
+
+Your order #{{orderId}} has been confirmed.
+
+Items: {{itemCount}}
+Payment method: {{paymentMethod}}
+Total: Rs {{grandTotal}}
+
+We'll let you know when it's on its way.`
+  },
+  'low-stock-report': {
+    subject: 'Low Stock: {{itemCount}} Items Need Restocking',
+    heading: 'Low Stock Report',
+    subheading: 'Items at or below their threshold',
+    html: `
+        <p>These items are running low:</p>
+        
+        <div class="note" style="white-space: pre-line;">{{items}}</div>
+        
+        <p>Restock them, or adjust their thresholds if they are expected to stay low.</p>`,
+    text: `These items are running low:
+
+{{items}}
+
+Restock them, or adjust their thresholds if they are expected to stay low.`
+  }
+};
+
+const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+const interpolate = (source: string, variables: MailVariables, escape: boolean): string => {
+  return source.replace(/{{\s*(\w+)\s*}}/g, (_match, name: string) => {
+    if (variables[name] === undefined) {
+      throw new Error(`Missing mail template variable: ${name}`);
+    }
+    const value = String(variables[name]);
+    return escape ? escapeHtml(value) : value;
+  });
+};
+
+const layout = (title: string, heading: string, subheading: string, body: string): string => {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${title}</title>
+      <style>
+        body {
+          font-family: 'Helvetica Neue', Arial, sans-serif;
+          line-height: 1.5;
+          color: #333;
+          max-width: 600px;
+          margin: 0 auto;
+          padding: 20px;
+          background-color: #f9f9f9;
+        }
+        .container {
+          background: white;
+          padding: 40px;
+          border-radius: 8px;
+          box-shadow: 0 2px 10px rgba(0,0,0,0.05);
+        }
+        .header {
+          text-align: center;
+          margin-bottom: 25px;
+          border-bottom: 1px solid #eee;
+          padding-bottom: 20px;
+        }
+        .logo {
+          font-size: 20px;
+          font-weight: bold;
+          color: #2563eb;
+          margin-bottom: 10px;
+        }
+        .otp-box {
+          background: #f8fafc;
+          border: 1px dashed #2563eb;
+          padding: 15px;
+          border-radius: 6px;
+          text-align: center;
+          margin: 25px 0;
+          font-size: 18px;
+        }
+        .otp-code {
+          font-size: 28px;
+          font-weight: bold;
+          letter-spacing: 3px;
+          color: #2563eb;
+          margin: 10px 0;
+        }
+        .note {
+          background: #f0fdf4;
+          border-left: 4px solid #10b981;
+          padding: 12px 15px;
+          margin: 20px 0;
+          font-size: 14px;
+        }
+        .footer {
+          text-align: center;
+          margin-top: 30px;
+          font-size: 12px;
+          color: #64748b;
+          border-top: 1px solid #eee;
+          padding-top: 20px;
+        }
+        .button {
+          display: inline-block;
+          padding: 10px 20px;
+          background: #2563eb;
+          color: white;
+          text-decoration: none;
+          border-radius: 4px;
+          margin: 15px 0;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <div class="logo">${heading}</div>
+          <h2 style="margin: 10px 0; font-weight: 500;">${subheading}</h2>
+        </div>
+        ${body}
+        
+        <div class="footer">
+          <p>&copy; 2025 Haina Hola Ki Ho. All rights reserved.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+};
+
+export const renderTemplate = (name: MailTemplateName, variables: MailVariables): RenderedMail => {
+  const template = templates[name];
+  const subject = interpolate(template.subject, variables, false);
+
+  return {
+    subject,
+    html: layout(
+      escapeHtml(subject),
+      interpolate(template.heading, variables, true),
+      interpolate(template.subheading, variables, true),
+      interpolate(template.html, variables, true)
+    ),
+    text: interpolate(template.text, variables, false)
+  };
+};
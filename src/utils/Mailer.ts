@@ -0,0 +1,107 @@
+import nodemailer from 'nodemailer';
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { MailTemplateName, MailVariables, RenderedMail, renderTemplate } from './MailTemplates';
+
+dotenv.config();
+
+export interface MailMessage extends RenderedMail {
+  from: string;
+  to: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export const createSmtpTransport = (): MailTransport => {
+  // Explicit SMTP settings win; otherwise fall back to the Gmail account
+  const transporter = process.env.SMTP_HOST
+    ? nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || '587'),
+        secure: process.env.SMTP_SECURE === 'true',
+        auth: {
+          user: process.env.SMTP_USER,
+          pass: process.env.SMTP_PASS,
+        },
+      })
+    : nodemailer.createTransport({
+        service: 'gmail', 
+        auth: {
+          user: process.env.GMAIL_USER,
+          pass: process.env.GMAIL_PASS, 
+        },
+      });
+
+  return {
+    send: async (message) => {
+      await transporter.sendMail(message);
+    }
+  };
+};
+
+// Writes each message as .json (headers and both bodies) plus .html for previewing
+export const createFileTransport = (directory: string): MailTransport => {
+  return {
+    send: async (message) => {
+      await fs.mkdir(directory, { recursive: true });
+
+      const safeRecipient = message.to.replace(/[^a-z0-9.@_-]/gi, '_');
+      const baseName = `${Date.now()}-${crypto.randomBytes(3).toString('hex')}-${safeRecipient}`;
+
+      await fs.writeFile(
+        path.join(directory, `${baseName}.json`),
+        JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+      );
+      await fs.writeFile(path.join(directory, `${baseName}.html`), message.html);
+    }
+  };
+};
+
+export const createConsoleTransport = (): MailTransport => {
+  return {
+    send: async (message) => {
+      console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n\n${message.text}\n`);
+    }
+  };
+};
+
+// MAIL_TRANSPORT picks the transport: "smtp" (default), "file" or "console"
+const createTransportFromEnv = (): MailTransport => {
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'file':
+      return createFileTransport(process.env.MAIL_OUTPUT_DIR || 'mail-output');
+    case 'console':
+      return createConsoleTransport();
+    default:
+      return createSmtpTransport();
+  }
+};
+
+let transport: MailTransport | null = null;
+
+// Replace the transport at runtime, e.g. to capture mail in tests
+export const setMailTransport = (mailTransport: MailTransport): void => {
+  transport = mailTransport;
+};
+
+export const sendMail = async (
+  to: string,
+  template: MailTemplateName,
+  variables: MailVariables
+): Promise<void> => {
+  if (!transport) {
+    transport = createTransportFromEnv();
+  }
+
+  const rendered = renderTemplate(template, variables);
+
+  await transport.send({
+    from: process.env.MAIL_FROM || process.env.GMAIL_USER || '',
+    to,
+    ...rendered
+  });
+};
@@ -0,0 +1,84 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { fileURLToPath } from 'url';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import { OIDC_PROVIDER_CONFIG, OidcProvider } from '../config/OidcProviders';
+
+interface Jwk extends crypto.JsonWebKey {
+  kid?: string;
+}
+
+export interface OidcIdentityClaims {
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  name?: string;
+}
+
+// Providers rotate keys rarely; refetch early only when a token names an unknown key
+const JWKS_CACHE_TTL_MS = 60 * 60 * 1000;
+const jwksCache = new Map<string, { keys: Jwk[]; expiresAt: number }>();
+
+const fetchJwks = async (jwksUri: string): Promise<Jwk[]> => {
+  if (jwksUri.startsWith('file:')) {
+    const contents = await fs.readFile(fileURLToPath(jwksUri), 'utf8');
+    return JSON.parse(contents).keys || [];
+  }
+
+  const response = await axios.get(jwksUri, { timeout: 5000 });
+  return response.data.keys || [];
+};
+
+const getSigningKey = async (jwksUri: string, kid: string | undefined): Promise<crypto.KeyObject> => {
+  const findKey = (keys: Jwk[]) => keys.find(key => !kid || key.kid === kid);
+
+  let cached = jwksCache.get(jwksUri);
+  let jwk = cached && cached.expiresAt > Date.now() ? findKey(cached.keys) : undefined;
+
+  if (!jwk) {
+    const keys = await fetchJwks(jwksUri);
+    cached = { keys, expiresAt: Date.now() + JWKS_CACHE_TTL_MS };
+    jwksCache.set(jwksUri, cached);
+    jwk = findKey(keys);
+  }
+
+  if (!jwk) {
+    throw new Error('No matching signing key for ID token');
+  }
+
+  return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+};
+
+// Throws if the token is malformed, expired, not for us, or not signed by the provider
+export const verifyIdToken = async (provider: OidcProvider, idToken: string): Promise<OidcIdentityClaims> => {
+  const config = OIDC_PROVIDER_CONFIG[provider];
+  if (!config.clientId) {
+    throw new Error(`Sign-in with ${provider} is not configured`);
+  }
+
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new Error('Malformed ID token');
+  }
+
+  const key = await getSigningKey(config.jwksUri, decoded.header.kid);
+  const claims = jwt.verify(idToken, key, {
+    algorithms: ['RS256', 'ES256'],
+    issuer: config.issuers,
+    audience: config.clientId
+  }) as JwtPayload;
+
+  if (!claims.sub) {
+    throw new Error('ID token has no subject');
+  }
+
+  return {
+    subject: claims.sub,
+    email: typeof claims.email === 'string' ? claims.email : undefined,
+    // Google sends a boolean, some providers send the string "true"; Facebook sends neither, so
+    // its sign-ins only work for identities already linked from the profile
+    emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+    name: typeof claims.name === 'string' ? claims.name : undefined
+  };
+};
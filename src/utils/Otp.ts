@@ -1,136 +1,99 @@
-import nodemailer from 'nodemailer';
 import dotenv from 'dotenv';
+import crypto from 'crypto';
+import Otp, { OTPPurpose } from '../model/Otp';
+import { sendMail } from './Mailer';
 
 dotenv.config();
 
-const transporter = nodemailer.createTransport({
-  service: 'gmail', 
-  auth: {
-    user: process.env.GMAIL_USER,
-    pass: process.env.GMAIL_PASS, 
-  },
-});
+const OTP_SECRET = process.env.OTP_SECRET || process.env.ACCESS_TOKEN_SECRET;
+if (!OTP_SECRET) {
+  // An empty HMAC key would make the stored hashes as easy to brute-force as plain SHA-256
+  throw new Error('OTP_SECRET or ACCESS_TOKEN_SECRET must be set');
+}
+export const OTP_MAX_ATTEMPTS = 5;
+export const OTP_RESEND_COOLDOWN_MS = 60 * 1000; // 1 minute
 
 export const generateOTP = (): string => {
-  return Math.floor(100000 + Math.random() * 900000).toString();
+  return crypto.randomInt(100000, 1000000).toString();
+};
+
+export type OTPVerificationResult = 'VALID' | 'INVALID' | 'EXPIRED' | 'NOT_FOUND' | 'TOO_MANY_ATTEMPTS';
+
+// Codes are keyed with a server secret so a leaked collection can't be brute-forced offline
+const hashOTP = (otp: string): string => {
+  return crypto.createHmac('sha256', OTP_SECRET as string).update(otp).digest('hex');
+};
+
+// Seconds until a new code of this purpose may be sent, or 0
+export const getOTPCooldown = async (userId: string, purpose: OTPPurpose): Promise<number> => {
+  const latest = await Otp.findOne({ userId, purpose }).sort({ createdAt: -1 });
+  if (!latest) return 0;
+
+  const remainingMs = latest.createdAt.getTime() + OTP_RESEND_COOLDOWN_MS - Date.now();
+  return remainingMs > 0 ? Math.ceil(remainingMs / 1000) : 0;
+};
+
+// Replaces any outstanding code of the same purpose and returns the new plaintext code
+export const issueOTP = async (userId: string, purpose: OTPPurpose, ttlMs: number): Promise<string> => {
+  const otp = generateOTP();
+
+  await Otp.deleteMany({ userId, purpose });
+  await Otp.create({
+    userId,
+    purpose,
+    codeHash: hashOTP(otp),
+    expiresAt: new Date(Date.now() + ttlMs)
+  });
+
+  return otp;
+};
+
+export const revokeOTPs = async (userId: string, purpose: OTPPurpose): Promise<void> => {
+  await Otp.deleteMany({ userId, purpose });
+};
+
+// Checks a code and consumes the record on success or once too many wrong guesses were made.
+// Each guess claims an attempt with a conditional $inc before the code is compared, so parallel
+// guesses can't get past the limit, and only one of two parallel correct guesses succeeds.
+export const verifyOTPCode = async (userId: string, purpose: OTPPurpose, otp: string): Promise<OTPVerificationResult> => {
+  const existing = await Otp.findOne({ userId, purpose });
+  if (!existing) return 'NOT_FOUND';
+
+  if (new Date() > existing.expiresAt) {
+    await existing.deleteOne();
+    return 'EXPIRED';
+  }
+
+  const record = await Otp.findOneAndUpdate(
+    { _id: existing._id, attempts: { $lt: OTP_MAX_ATTEMPTS } },
+    { $inc: { attempts: 1 } },
+    { new: true }
+  );
+  if (!record) return 'TOO_MANY_ATTEMPTS';
+
+  const expected = Buffer.from(record.codeHash, 'hex');
+  const received = Buffer.from(hashOTP(otp.trim()), 'hex');
+  if (crypto.timingSafeEqual(expected, received)) {
+    const { deletedCount } = await Otp.deleteOne({ _id: record._id });
+    return deletedCount === 1 ? 'VALID' : 'NOT_FOUND';
+  }
+
+  if (record.attempts >= OTP_MAX_ATTEMPTS) {
+    await Otp.deleteOne({ _id: record._id });
+    return 'TOO_MANY_ATTEMPTS';
+  }
+
+  return 'INVALID';
 };
 
 export const sendOTPEmail = async (email: string, otp: string, username: string): Promise<void> => {
-  const htmlContent = `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="utf-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>Password Reset OTP</title>
-      <style>
-        body {
-          font-family: 'Helvetica Neue', Arial, sans-serif;
-          line-height: 1.5;
-          color: #333;
-          max-width: 600px;
-          margin: 0 auto;
-          padding: 20px;
-          background-color: #f9f9f9;
-        }
-        .container {
-          background: white;
-          padding: 40px;
-          border-radius: 8px;
-          box-shadow: 0 2px 10px rgba(0,0,0,0.05);
-        }
-        .header {
-          text-align: center;
-          margin-bottom: 25px;
-          border-bottom: 1px solid #eee;
-          padding-bottom: 20px;
-        }
-        .logo {
-          font-size: 20px;
-          font-weight: bold;
-          color: #2563eb;
-          margin-bottom: 10px;
-        }
-        .otp-box {
-          background: #f8fafc;
-          border: 1px dashed #2563eb;
-          padding: 15px;
-          border-radius: 6px;
-          text-align: center;
-          margin: 25px 0;
-          font-size: 18px;
-        }
-        .otp-code {
-          font-size: 28px;
-          font-weight: bold;
-          letter-spacing: 3px;
-          color: #2563eb;
-          margin: 10px 0;
-        }
-        .note {
-          background: #f0fdf4;
-          border-left: 4px solid #10b981;
-          padding: 12px 15px;
-          margin: 20px 0;
-          font-size: 14px;
-        }
-        .footer {
-          text-align: center;
-          margin-top: 30px;
-          font-size: 12px;
-          color: #64748b;
-          border-top: 1px solid #eee;
-          padding-top: 20px;
-        }
-        .button {
-          display: inline-block;
-          padding: 10px 20px;
-          background: #2563eb;
-          color: white;
-          text-decoration: none;
-          border-radius: 4px;
-          margin: 15px 0;
-        }
-      </style>
-    </head>
-    <body>
-      <div class="container">
-        <div class="header">
-          <div class="logo">Password Reset</div>
-          <h2 style="margin: 10px 0; font-weight: 500;">Your security code</h2>
-        </div>
-        
-        <p>Hi <strong>${username}</strong>,</p>
-        
-        <p>We received a request to reset your password. Here's your one-time passcode:</p>
-        
-        <div class="otp-box">
-          <div style="margin-bottom: 5px; color: #64748b;">Enter this code to continue:</div>
-          <div class="otp-code">${otp}</div>
-          <div style="font-size: 14px; color: #64748b;">Expires in 5 minutes</div>
-        </div>
-        
-        <div class="note">
-          <strong>For your security:</strong>
-          <p>• Never share this code with anyone</p>
-          <p>• This code will expire shortly</p>
-          <p>• If you didn't request this, please ignore this email</p>
-        </div>
-        
-        <div class="footer">
-          <p>&copy; 2025 Haina Hola Ki Ho. All rights reserved.</p>
-        </div>
-      </div>
-    </body>
-    </html>
-  `;
-
-  const mailOptions = {
-    from: process.env.GMAIL_USER,
-    to: email,
-    subject: 'Your Password Reset Code',
-    html: htmlContent,
-  };
-
-  await transporter.sendMail(mailOptions);
+  await sendMail(email, 'password-reset-otp', { username, otp, expiryMinutes: 5 });
+};
+
+export const sendLoginCodeEmail = async (email: string, otp: string, username: string): Promise<void> => {
+  await sendMail(email, 'login-otp', { username, otp, expiryMinutes: 5 });
+};
+
+export const sendVerificationEmail = async (email: string, otp: string, username: string): Promise<void> => {
+  await sendMail(email, 'email-verification', { username, otp, expiryMinutes: 30 });
 };
\ No newline at end of file
@@ -0,0 +1,90 @@
+import mongoose from 'mongoose';
+
+export const DEFAULT_PAGE_SIZE = 10;
+export const MAX_PAGE_SIZE = 50;
+
+export interface SortKey {
+  field: string;
+  direction: 1 | -1;
+}
+
+// Every listing sort is a single field plus _id as tie-breaker, so a cursor only
+// needs the last item's value for that field and its _id
+export const PRODUCT_SORTS: { [sort: string]: SortKey } = {
+  newest: { field: 'createdAt', direction: -1 },
+  relevance: { field: 'score', direction: -1 },
+  'price-asc': { field: 'effectivePrice', direction: 1 }, // added to each listed product
+  'price-desc': { field: 'effectivePrice', direction: -1 },
+  rating: { field: 'averageRating', direction: -1 },
+  'name-asc': { field: 'name', direction: 1 },
+  'name-desc': { field: 'name', direction: -1 },
+};
+
+interface CursorPayload {
+  sort: string;
+  value: unknown;
+  isDate?: boolean;
+  id: string;
+}
+
+export const parsePageSize = (value: unknown): number => {
+  const limit = parseInt(value as string);
+  if (isNaN(limit) || limit < 1) return DEFAULT_PAGE_SIZE;
+  return Math.min(limit, MAX_PAGE_SIZE);
+};
+
+export const toSortStage = (key: SortKey): Record<string, 1 | -1> => ({
+  [key.field]: key.direction,
+  _id: key.direction
+});
+
+// Opaque to clients; base64url JSON of the last item's sort value and _id
+export const encodeCursor = (sort: string, key: SortKey, item: any): string => {
+  const value = item[key.field];
+  const payload: CursorPayload = {
+    sort,
+    value: value instanceof Date ? value.toISOString() : value ?? null,
+    isDate: value instanceof Date || undefined,
+    id: item._id.toString()
+  };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+};
+
+// The cursor is client-supplied, so its value must be a plain sort value and never an
+// object that would be read as a query operator; undefined when it isn't
+const cursorValue = (payload: CursorPayload): string | number | Date | null | undefined => {
+  const { value } = payload;
+  if (payload.isDate) {
+    if (typeof value !== 'string') return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  if (value === null || typeof value === 'string') return value;
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  return undefined;
+};
+
+// Returns the $match condition for items after the cursor, or null if the cursor is
+// malformed or was issued for a different sort
+export const cursorCondition = (cursor: string, sort: string, key: SortKey): Record<string, unknown> | null => {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  if (payload?.sort !== sort || typeof payload.id !== 'string' || !mongoose.Types.ObjectId.isValid(payload.id)) return null;
+
+  const value = cursorValue(payload);
+  if (value === undefined) return null;
+  const id = new mongoose.Types.ObjectId(payload.id);
+  const op = key.direction === 1 ? '$gt' : '$lt';
+
+  return {
+    $or: [
+      { [key.field]: { [op]: value } },
+      { [key.field]: value, _id: { [op]: id } }
+    ]
+  };
+};
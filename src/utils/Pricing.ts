@@ -0,0 +1,123 @@
+import { IProduct, IVariant } from '../model/Product';
+
+// A sale price only applies between saleStartsAt and saleEndsAt; either end may be open
+export const isSaleActive = (product: IProduct, now: Date = new Date()): boolean => {
+  return (!product.saleStartsAt || product.saleStartsAt <= now)
+    && (!product.saleEndsAt || product.saleEndsAt > now);
+};
+
+// The price a customer pays right now, for the variant if given, else the product
+export const effectivePrice = (product: IProduct, variant?: IVariant | null, now: Date = new Date()): number => {
+  const item = variant || product;
+  if (item.salePrice != null && isSaleActive(product, now)) return item.salePrice;
+  return item.price;
+};
+
+// Aggregation counterpart of effectivePrice at the product level, for sorting, filtering and facets.
+// The product-level salePrice of a product with variants is already the lowest variant sale price.
+export const effectivePriceExpression = (now: Date = new Date()) => ({
+  $cond: [
+    {
+      $and: [
+        { $ne: [{ $ifNull: ['$salePrice', null] }, null] },
+        { $or: [{ $eq: [{ $ifNull: ['$saleStartsAt', null] }, null] }, { $lte: ['$saleStartsAt', now] }] },
+        { $or: [{ $eq: [{ $ifNull: ['$saleEndsAt', null] }, null] }, { $gt: ['$saleEndsAt', now] }] }
+      ]
+    },
+    '$salePrice',
+    '$price'
+  ]
+});
+
+export type PriceRange = { min?: number; max?: number };
+
+// A storefront price filter as a query condition on the effective price. Like the facet
+// buckets, the range includes min and excludes max, so "1000-5000" and "5000-10000" don't overlap.
+export const effectivePriceFilter = (range: PriceRange, now: Date = new Date()) => {
+  const price = effectivePriceExpression(now);
+  const conditions: Record<string, unknown>[] = [];
+  if (range.min !== undefined) conditions.push({ $gte: [price, range.min] });
+  if (range.max !== undefined) conditions.push({ $lt: [price, range.max] });
+  return { $expr: { $and: conditions } };
+};
+
+export type Pricing = {
+  compareAtPrice?: number | null;
+  salePrice?: number | null;
+  saleStartsAt?: Date | null;
+  saleEndsAt?: Date | null;
+};
+
+// Reads the sale fields from a request body; an empty string clears a field
+export const parsePricing = (body: any): Pricing | { error: string } => {
+  const pricing: Pricing = {};
+
+  for (const field of ['compareAtPrice', 'salePrice'] as const) {
+    if (body[field] === undefined) continue;
+    if (body[field] === '' || body[field] === null) {
+      pricing[field] = null;
+      continue;
+    }
+    const amount = parseFloat(body[field]);
+    if (isNaN(amount) || amount < 0) {
+      return { error: `${field} must be a number of at least 0` };
+    }
+    pricing[field] = amount;
+  }
+
+  for (const field of ['saleStartsAt', 'saleEndsAt'] as const) {
+    if (body[field] === undefined) continue;
+    if (body[field] === '' || body[field] === null) {
+      pricing[field] = null;
+      continue;
+    }
+    const date = new Date(body[field]);
+    if (isNaN(date.getTime())) {
+      return { error: `${field} must be a valid date` };
+    }
+    pricing[field] = date;
+  }
+
+  if (pricing.saleStartsAt && pricing.saleEndsAt && pricing.saleEndsAt <= pricing.saleStartsAt) {
+    return { error: 'saleEndsAt must be after saleStartsAt' };
+  }
+
+  return pricing;
+};
+
+// The sale window lives on the product and covers its variants, so only the amounts apply to a variant
+export const applyPricing = (target: IProduct | IVariant, pricing: Pricing, isVariant = false): void => {
+  if (pricing.compareAtPrice !== undefined) target.compareAtPrice = pricing.compareAtPrice ?? undefined;
+  if (pricing.salePrice !== undefined) target.salePrice = pricing.salePrice ?? undefined;
+  if (isVariant) return;
+
+  const product = target as IProduct;
+  if (pricing.saleStartsAt !== undefined) product.saleStartsAt = pricing.saleStartsAt ?? undefined;
+  if (pricing.saleEndsAt !== undefined) product.saleEndsAt = pricing.saleEndsAt ?? undefined;
+};
+
+const amountsError = (item: IProduct | IVariant, label: string): string | null => {
+  if (item.salePrice != null && item.salePrice >= item.price) {
+    return `salePrice${label} must be less than price`;
+  }
+  if (item.compareAtPrice != null && item.compareAtPrice <= item.price) {
+    return `compareAtPrice${label} must be more than price`;
+  }
+  return null;
+};
+
+// Checks the stored result rather than the request, since a request may change only one end of
+// the window or only one of the amounts. With variants the product-level amounts are derived
+// from them on save, so only the variants' own amounts are checked.
+export const pricingError = (product: IProduct): string | null => {
+  if (product.saleStartsAt && product.saleEndsAt && product.saleEndsAt <= product.saleStartsAt) {
+    return 'saleEndsAt must be after saleStartsAt';
+  }
+  if (product.variants.length === 0) return amountsError(product, '');
+
+  for (const variant of product.variants) {
+    const error = amountsError(variant, ` of variant ${variant.sku}`);
+    if (error) return error;
+  }
+  return null;
+};
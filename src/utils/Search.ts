@@ -0,0 +1,97 @@
+import Product from '../model/Product';
+
+// Same weights as the product text index, reused when scoring typo-tolerant matches
+const SEARCH_WEIGHTS = { name: 10, categoryName: 5, description: 1 };
+
+// Only short queries fall back to fuzzy matching; long ones are specific enough and
+// the generated patterns would get expensive
+const FUZZY_MAX_TERMS = 3;
+const FUZZY_MIN_TERM_LENGTH = 3;
+const FUZZY_MAX_TERM_LENGTH = 20; // the pattern grows with the square of the term length
+
+// Search routes are public; longer queries are rejected before any pattern is built
+export const MAX_SEARCH_LENGTH = 100;
+
+export interface ProductSearch {
+  match: Record<string, unknown>; // must be the first $match of the pipeline when using $text
+  score: unknown; // expression for a numeric `score` field, higher is more relevant
+}
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const tokenize = (search: string): string[] => {
+  return search.toLowerCase().split(/\s+/).filter(Boolean);
+};
+
+// Matches the term with at most one typo: a substituted, missing, extra or swapped letter
+const fuzzyPattern = (term: string): string => {
+  if (term.length < FUZZY_MIN_TERM_LENGTH) return escapeRegex(term);
+
+  const chars = [...term];
+  const variants = new Set<string>([chars.map(escapeRegex).join('')]);
+
+  for (let i = 0; i <= chars.length; i++) {
+    const before = chars.slice(0, i).map(escapeRegex).join('');
+    if (i < chars.length) {
+      const after = chars.slice(i + 1).map(escapeRegex).join('');
+      variants.add(`${before}.${after}`); // substitution
+      variants.add(`${before}${after}`); // deletion
+    }
+    variants.add(`${before}.${chars.slice(i).map(escapeRegex).join('')}`); // insertion
+    if (i < chars.length - 1) {
+      const swapped = escapeRegex(chars[i + 1]) + escapeRegex(chars[i]);
+      variants.add(`${before}${swapped}${chars.slice(i + 2).map(escapeRegex).join('')}`); // transposition
+    }
+  }
+
+  return [...variants].join('|');
+};
+
+const textSearch = (search: string): ProductSearch => ({
+  match: { $text: { $search: search } },
+  score: { $meta: 'textScore' }
+});
+
+const fuzzySearch = (search: string): ProductSearch => {
+  const patterns = tokenize(search).map(term => new RegExp(fuzzyPattern(term), 'i'));
+  const fields = Object.keys(SEARCH_WEIGHTS) as (keyof typeof SEARCH_WEIGHTS)[];
+
+  return {
+    // Every term has to appear in at least one field
+    match: {
+      $and: patterns.map(pattern => ({ $or: fields.map(field => ({ [field]: pattern })) }))
+    },
+    score: {
+      $add: patterns.flatMap(pattern => fields.map(field => ({
+        $cond: [
+          { $regexMatch: { input: { $ifNull: [`$${field}`, ''] }, regex: pattern } },
+          SEARCH_WEIGHTS[field],
+          0
+        ]
+      })))
+    }
+  };
+};
+
+// Adds the search conditions to an existing filter
+export const applySearch = (search: ProductSearch, filter: Record<string, any>): Record<string, any> => {
+  const combined: Record<string, any> = { ...filter, ...search.match };
+  if (filter.$and && search.match.$and) {
+    combined.$and = [...filter.$and, ...(search.match.$and as unknown[])];
+  }
+  return combined;
+};
+
+// Stemmed, weighted text search first. A short query that finds nothing is probably
+// misspelled, so retry it allowing one typo per word.
+export const buildProductSearch = async (
+  search: string,
+  filter: Record<string, unknown>
+): Promise<ProductSearch> => {
+  const text = textSearch(search);
+  const terms = tokenize(search);
+  if (terms.length > FUZZY_MAX_TERMS || terms.some(term => term.length > FUZZY_MAX_TERM_LENGTH)) return text;
+
+  const found = await Product.exists(applySearch(text, filter));
+  return found ? text : fuzzySearch(search);
+};
@@ -0,0 +1,94 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import { FilterQuery } from 'mongoose';
+import Session, { ISession } from '../model/Session';
+import { IUser } from '../model/User';
+import { generateAccessToken, generateRefreshToken, REFRESH_TOKEN_EXPIRY_MS } from './Jwt';
+
+interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+}
+
+// Refresh tokens are only ever stored hashed
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+const issueTokens = (user: IUser, sessionId: string): TokenPair => {
+  const payload = {
+    userId: user._id.toString(),
+    username: user.username,
+    email: user.email,
+    role: user.role,
+    sessionId
+  };
+
+  return {
+    accessToken: generateAccessToken(payload),
+    refreshToken: generateRefreshToken(payload)
+  };
+};
+
+// Start a new session for the device making the request
+export const createSession = async (user: IUser, req: Request): Promise<TokenPair & { session: ISession }> => {
+  const session = new Session({
+    userId: user._id,
+    userAgent: req.get('user-agent'),
+    ip: req.ip,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_EXPIRY_MS)
+  });
+
+  const tokens = issueTokens(user, session._id.toString());
+  session.refreshTokenHash = hashToken(tokens.refreshToken);
+  await session.save();
+
+  return { ...tokens, session };
+};
+
+// Replace the session's refresh token; the presented one becomes unusable. The swap only
+// happens if the presented token is still current, so of two concurrent refreshes with the
+// same token one wins and the other gets null, to be treated as reuse.
+export const rotateSession = async (
+  session: ISession,
+  user: IUser,
+  req: Request,
+  presentedToken: string
+): Promise<TokenPair | null> => {
+  const tokens = issueTokens(user, session._id.toString());
+
+  const rotated = await Session.findOneAndUpdate(
+    {
+      _id: session._id,
+      refreshTokenHash: hashToken(presentedToken),
+      revokedAt: { $exists: false }
+    },
+    {
+      $set: {
+        refreshTokenHash: hashToken(tokens.refreshToken),
+        userAgent: req.get('user-agent') || session.userAgent,
+        ip: req.ip || session.ip,
+        lastUsedAt: new Date(),
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_EXPIRY_MS)
+      }
+    }
+  );
+
+  return rotated ? tokens : null;
+};
+
+export const revokeSession = async (session: ISession, reason: string): Promise<void> => {
+  if (session.revokedAt) return;
+  session.revokedAt = new Date();
+  session.revokedReason = reason;
+  await session.save();
+};
+
+export const revokeAllSessions = async (userId: string, reason: string, exceptSessionId?: string): Promise<void> => {
+  const filter: FilterQuery<ISession> = { userId, revokedAt: { $exists: false } };
+  if (exceptSessionId) {
+    filter._id = { $ne: exceptSessionId };
+  }
+
+  await Session.updateMany(filter, { revokedAt: new Date(), revokedReason: reason });
+};
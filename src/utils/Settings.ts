@@ -0,0 +1,42 @@
+import Setting from '../model/Setting';
+
+export interface SecuritySettings {
+  requireTwoFactorForStaff: boolean;
+}
+
+const SECURITY_SETTINGS_KEY = 'security';
+const DEFAULT_SECURITY_SETTINGS: SecuritySettings = {
+  requireTwoFactorForStaff: false
+};
+
+// Checked on every privileged request, so keep a short-lived copy in memory
+const CACHE_TTL_MS = 30 * 1000;
+let cached: { settings: SecuritySettings; expiresAt: number } | null = null;
+
+export const getSecuritySettings = async (): Promise<SecuritySettings> => {
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.settings;
+  }
+
+  const setting = await Setting.findOne({ key: SECURITY_SETTINGS_KEY });
+  const settings = { ...DEFAULT_SECURITY_SETTINGS, ...(setting?.value || {}) };
+  cached = { settings, expiresAt: Date.now() + CACHE_TTL_MS };
+
+  return settings;
+};
+
+export const updateSecuritySettings = async (
+  changes: Partial<SecuritySettings>,
+  updatedBy: string
+): Promise<SecuritySettings> => {
+  const settings = { ...(await getSecuritySettings()), ...changes };
+
+  await Setting.findOneAndUpdate(
+    { key: SECURITY_SETTINGS_KEY },
+    { value: settings, updatedBy },
+    { upsert: true }
+  );
+  cached = { settings, expiresAt: Date.now() + CACHE_TTL_MS };
+
+  return settings;
+};
@@ -0,0 +1,17 @@
+import { IUser, ISuspension } from '../model/User';
+
+// Expired suspensions are ignored rather than cleaned up, so lifting one needs no job
+export const getActiveSuspension = (user: IUser): ISuspension | null => {
+  const { suspension } = user;
+  if (!suspension) return null;
+  if (suspension.expiresAt && suspension.expiresAt.getTime() <= Date.now()) return null;
+  return suspension;
+};
+
+export const suspendedResponse = (suspension: ISuspension) => ({
+  message: suspension.type === 'BANNED'
+    ? 'This account has been banned'
+    : 'This account has been suspended',
+  reason: suspension.reason,
+  expiresAt: suspension.expiresAt || null
+});
@@ -0,0 +1,84 @@
+import LoginAttempt from '../model/LoginAttempt';
+
+export interface ThrottlePolicy {
+  freeAttempts: number;   // failures allowed before backoff starts
+  maxAttempts: number;    // failures that trigger a temporary lockout
+  maxBackoffMs: number;
+  lockMs: number;
+  windowMs: number;       // how long failures are remembered
+}
+
+export const THROTTLE_POLICIES: { [name: string]: ThrottlePolicy } = {
+  account: {
+    freeAttempts: 3,
+    maxAttempts: 10,
+    maxBackoffMs: 60 * 1000,
+    lockMs: 30 * 60 * 1000,
+    windowMs: 60 * 60 * 1000
+  },
+  ip: {
+    freeAttempts: 10,
+    maxAttempts: 50,
+    maxBackoffMs: 60 * 1000,
+    lockMs: 60 * 60 * 1000,
+    windowMs: 60 * 60 * 1000
+  },
+  otp: {
+    freeAttempts: 3,
+    maxAttempts: 5,
+    maxBackoffMs: 30 * 1000,
+    lockMs: 15 * 60 * 1000,
+    windowMs: 15 * 60 * 1000
+  }
+};
+
+export const accountKey = (userId: string): string => `account:${userId}`;
+export const ipKey = (ip: string | undefined): string => `ip:${ip || 'unknown'}`;
+export const otpKey = (email: string): string => `otp:${email.trim().toLowerCase()}`;
+
+// Returns the number of seconds the caller must wait, or 0 if the attempt may proceed
+export const checkThrottle = async (key: string): Promise<number> => {
+  const attempt = await LoginAttempt.findOne({ key });
+  if (!attempt?.blockedUntil) return 0;
+
+  const remainingMs = attempt.blockedUntil.getTime() - Date.now();
+  return remainingMs > 0 ? Math.ceil(remainingMs / 1000) : 0;
+};
+
+// Records a failure and applies exponential backoff; `locked` is true only
+// for the failure that triggered the lockout
+export const recordFailure = async (key: string, policy: ThrottlePolicy): Promise<{ locked: boolean }> => {
+  const now = Date.now();
+
+  // A lockout that has run its course starts the count over
+  await LoginAttempt.deleteOne({ key, locked: true, blockedUntil: { $lte: new Date(now) } });
+
+  const attempt = await LoginAttempt.findOneAndUpdate(
+    { key },
+    {
+      $inc: { failures: 1 },
+      $set: { lastFailureAt: new Date(now), expiresAt: new Date(now + Math.max(policy.windowMs, policy.lockMs)) }
+    },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+
+  if (attempt.failures >= policy.maxAttempts) {
+    const wasLocked = attempt.locked;
+    attempt.locked = true;
+    attempt.blockedUntil = new Date(now + policy.lockMs);
+    await attempt.save();
+    return { locked: !wasLocked };
+  }
+
+  if (attempt.failures > policy.freeAttempts) {
+    const backoffMs = Math.min(1000 * 2 ** (attempt.failures - policy.freeAttempts - 1), policy.maxBackoffMs);
+    attempt.blockedUntil = new Date(now + backoffMs);
+    await attempt.save();
+  }
+
+  return { locked: false };
+};
+
+export const clearThrottle = async (key: string): Promise<void> => {
+  await LoginAttempt.deleteOne({ key });
+};
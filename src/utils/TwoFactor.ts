@@ -0,0 +1,44 @@
+import User, { IUser } from '../model/User';
+import { hashToken } from './Session';
+import { verifyTotp } from './Totp';
+
+// Both helpers claim the code with a conditional update, so two requests racing with the same
+// code can't both succeed. They also update the user in memory; callers save any other changes.
+
+export const consumeTotpCode = async (user: IUser, code: string): Promise<boolean> => {
+  if (!user.twoFactorSecret) return false;
+
+  const step = verifyTotp(user.twoFactorSecret, String(code));
+  if (step === null) return false;
+
+  // A code can't be used twice, even inside its validity window
+  const { modifiedCount } = await User.updateOne(
+    {
+      _id: user._id,
+      $or: [{ twoFactorLastUsedStep: { $lt: step } }, { twoFactorLastUsedStep: { $exists: false } }, { twoFactorLastUsedStep: null }]
+    },
+    { $set: { twoFactorLastUsedStep: step } }
+  );
+  if (modifiedCount !== 1) return false;
+
+  user.twoFactorLastUsedStep = step;
+  return true;
+};
+
+export const consumeRecoveryCode = async (user: IUser, recoveryCode: string): Promise<boolean> => {
+  const hash = hashToken(String(recoveryCode).trim().toLowerCase());
+  if (!user.twoFactorRecoveryCodes.includes(hash)) return false;
+
+  const { modifiedCount } = await User.updateOne(
+    { _id: user._id, twoFactorRecoveryCodes: hash },
+    { $pull: { twoFactorRecoveryCodes: hash } }
+  );
+  if (modifiedCount !== 1) return false;
+
+  user.twoFactorRecoveryCodes = user.twoFactorRecoveryCodes.filter(code => code !== hash);
+  return true;
+};
+
+export const hashRecoveryCodes = (codes: string[]): string[] => {
+  return codes.map(code => hashToken(code.toLowerCase()));
+};
@@ -0,0 +1,110 @@
+import { IProduct, IProductOption, IVariant, isPublished } from '../model/Product';
+import { effectivePrice } from './Pricing';
+
+export interface Purchasable {
+  variant?: IVariant;
+  price: number;
+  stock: number;
+  image: string;
+  label?: string;
+  sku?: string;
+}
+
+export const findVariant = (product: IProduct, variantId: string): IVariant | null => {
+  return product.variants.find(variant => variant._id.toString() === variantId) || null;
+};
+
+// Whether the SKU is the product's own or another of its variants'; the unique index on variant
+// SKUs only stops duplicates across products, not within one product's variants
+export const isSkuInProduct = (product: IProduct, sku: string, exceptVariantId?: string): boolean => {
+  return product.sku === sku
+    || product.variants.some(variant => variant.sku === sku && variant._id.toString() !== exceptVariantId);
+};
+
+// "M / Red", in the product's option order
+export const variantLabel = (product: IProduct, variant: IVariant): string => {
+  return product.options.map(option => variant.options.get(option.name)).filter(Boolean).join(' / ');
+};
+
+// What a customer is actually buying: the variant if the product has any, else the product itself,
+// at the price in effect right now
+export const resolvePurchasable = (
+  product: IProduct,
+  variantId?: string
+): Purchasable | { error: string } => {
+  if (!isPublished(product)) return { error: `${product.name} is not available` };
+
+  if (product.variants.length === 0) {
+    if (variantId) return { error: `${product.name} has no variants` };
+    return { price: effectivePrice(product), stock: product.stock, image: product.mainImage };
+  }
+
+  if (!variantId) return { error: `Please choose an option for ${product.name}` };
+
+  const variant = findVariant(product, variantId);
+  if (!variant) return { error: `Variant not found for ${product.name}` };
+
+  return {
+    variant,
+    price: effectivePrice(product, variant),
+    stock: variant.stock,
+    image: variant.image || product.mainImage,
+    label: variantLabel(product, variant),
+    sku: variant.sku
+  };
+};
+
+export const validateOptions = (options: unknown): IProductOption[] | string => {
+  if (!Array.isArray(options)) return 'options must be an array';
+
+  const names = new Set<string>();
+  const result: IProductOption[] = [];
+
+  for (const option of options) {
+    const name = typeof option?.name === 'string' ? option.name.trim() : '';
+    if (!name) return 'Every option needs a name';
+    if (names.has(name)) return `Duplicate option: ${name}`;
+    names.add(name);
+
+    const values = Array.isArray(option.values)
+      ? [...new Set<string>(option.values.map((value: unknown) => String(value).trim()).filter(Boolean))]
+      : [];
+    if (values.length === 0) return `Option ${name} needs at least one value`;
+
+    result.push({ name, values });
+  }
+
+  return result;
+};
+
+// A variant must pick exactly one allowed value per axis, and no two variants may pick the same combination
+export const validateVariantOptions = (
+  product: IProduct,
+  options: unknown,
+  excludeVariantId?: string
+): Record<string, string> | string => {
+  if (!options || typeof options !== 'object' || Array.isArray(options)) {
+    return 'options must be an object of option name to value';
+  }
+
+  const selected = options as Record<string, unknown>;
+  const unknownAxis = Object.keys(selected).find(name => !product.options.some(option => option.name === name));
+  if (unknownAxis) return `Unknown option: ${unknownAxis}`;
+
+  const result: Record<string, string> = {};
+  for (const option of product.options) {
+    const value = selected[option.name];
+    if (typeof value !== 'string' || !option.values.includes(value)) {
+      return `${option.name} must be one of: ${option.values.join(', ')}`;
+    }
+    result[option.name] = value;
+  }
+
+  const duplicate = product.variants.some(variant =>
+    variant._id.toString() !== excludeVariantId
+    && product.options.every(option => variant.options.get(option.name) === result[option.name])
+  );
+  if (duplicate) return 'A variant with these options already exists';
+
+  return result;
+};